@@ -6,8 +6,18 @@ import 'codemirror/lib/codemirror.css';
 import 'codemirror/theme/idea.css';
 import 'codemirror/addon/hint/show-hint.css';
 import 'codemirror/addon/hint/show-hint';
+import 'codemirror/addon/fold/foldgutter.css';
+import 'codemirror/addon/fold/foldcode';
+import 'codemirror/addon/fold/foldgutter';
+import 'codemirror/addon/fold/indent-fold';
 import '../src/codemirror-lsp.css';
-import { LspWsConnection, CodeMirrorAdapter } from '../src/index';
+import {
+  LspWsConnection,
+  CodeMirrorAdapter,
+  cssServerProfile,
+  htmlServerProfile,
+  typescriptServerProfile,
+} from '../src/index';
 import path from 'path'
 
 const sampleTs = `
@@ -58,7 +68,7 @@ const htmlEditor = CodeMirror(document.querySelector('.html'), {
   lineNumbers: true,
   mode: 'htmlmixed',
   value: sampleHtml,
-  gutters: ['CodeMirror-lsp'],
+  gutters: ['CodeMirror-lsp', 'CodeMirror-lsp-actions', 'CodeMirror-foldgutter'],
 });
 
 const cssEditor = CodeMirror(document.querySelector('.css'), {
@@ -66,7 +76,7 @@ const cssEditor = CodeMirror(document.querySelector('.css'), {
   lineNumbers: true,
   mode: 'css',
   value: sampleCss,
-  gutters: ['CodeMirror-lsp'],
+  gutters: ['CodeMirror-lsp', 'CodeMirror-lsp-actions', 'CodeMirror-foldgutter'],
 });
 
 const tsEditor = CodeMirror(document.querySelector('.ts'), {
@@ -74,7 +84,7 @@ const tsEditor = CodeMirror(document.querySelector('.ts'), {
   lineNumbers: true,
   mode: 'text/typescript',
   value: sampleTs,
-  gutters: ['CodeMirror-lsp'],
+  gutters: ['CodeMirror-lsp', 'CodeMirror-lsp-actions', 'CodeMirror-foldgutter'],
 });
 
 //tsEditor.on('lsp/diagnostics',data => console.log(data))
@@ -85,6 +95,7 @@ const html = {
   rootUri: `file://${normalize(path.join(__dirname,'example-project'))}`,
   documentUri:  `file://${normalize(path.join(__dirname,'example-project/project.html'))}`,
   documentText: () => htmlEditor.getValue(),
+  profile: htmlServerProfile,
 };
 
 const ts = {
@@ -93,6 +104,7 @@ const ts = {
   rootUri: `file:///${normalize(path.join(__dirname,'example-project'))}`,
   documentUri:  `file:///${normalize(path.join(__dirname,'example-project/source.ts'))}`,
   documentText: () => tsEditor.getValue(),
+  profile: typescriptServerProfile,
 };
 
 const css = {
@@ -101,6 +113,7 @@ const css = {
   rootUri: `file://${normalize(path.join(__dirname,'example-project'))}`,
   documentUri: `file://${normalize(path.join(__dirname,'example-project/styles.css'))}`,
   documentText: () => cssEditor.getValue(),
+  profile: cssServerProfile,
 };
 
 const htmlConnection = new LspWsConnection(html).connect(new WebSocket(html.serverUri));
@@ -118,5 +131,5 @@ const cssAdapter = new CodeMirrorAdapter(cssConnection, {
 const tsConnection = new LspWsConnection(ts).connect(new WebSocket(ts.serverUri));
 
 const tsAdapter = new CodeMirrorAdapter(tsConnection, {
-  quickSuggestionsDelay: 75
+  quickSuggestionsDelay: 75,
 }, tsEditor);
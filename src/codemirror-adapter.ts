@@ -10,15 +10,22 @@ import {
   CompletionItemKind
 } from 'vscode-languageserver-protocol';
 import { marked } from 'marked';
+import { CommandRegistry } from './command-registry';
 import {
+  ApplyEditResponder,
+  ConnectionState,
   getFilledDefaults,
   IEditorAdapter,
   ILspConnection,
   IPosition,
+  ISaveParticipantsResult,
   ITextEditorOptions,
   ITokenInfo,
   ICompletionTokenInfo,
+  IContextMenuItem,
+  MessageRequestResponder,
   TooltipData,
+  WorkDoneProgress,
 } from './types';
 import * as CodeMirror from 'codemirror';
 
@@ -27,6 +34,91 @@ interface IScreenCoord {
   y: number;
 }
 
+/**
+ * A workspace edit divided into the edits for the editor's document and everything else
+ */
+interface IDividedWorkspaceEdit {
+  edits: lsProtocol.TextEdit[];
+  /**
+   * The version of the document the edits were computed for, or null when the server did not say
+   */
+  version: number | null;
+  others: lsProtocol.WorkspaceEdit | null;
+}
+
+/**
+ * The part of the document that a rename replaces, and the name to start with
+ */
+interface IRenameTarget {
+  from: IPosition;
+  to: IPosition;
+  placeholder: string;
+}
+
+/**
+ * Formatting that waits until the change it follows was sent. The marker moves with later edits
+ */
+interface IPendingFormatting {
+  /**
+   * Covers the pasted text, or is a bookmark after the typed character
+   */
+  marker: CodeMirror.TextMarker;
+  typedCharacter?: string;
+}
+
+/**
+ * The groups of the "Refactor…" submenu. Refactorings of other kinds go in the last one
+ */
+const refactorGroups = [
+  { kind: lsProtocol.CodeActionKind.RefactorExtract, label: 'Extract' },
+  { kind: lsProtocol.CodeActionKind.RefactorInline, label: 'Inline' },
+  { kind: lsProtocol.CodeActionKind.RefactorRewrite, label: 'Rewrite' },
+  { kind: lsProtocol.CodeActionKind.Refactor, label: 'Other' },
+];
+
+/**
+ * The outermost folding range from the server that starts on the line
+ */
+function getFoldingRangeAt(cm: CodeMirror.Editor, line: number): lsProtocol.FoldingRange | null {
+  const ranges: lsProtocol.FoldingRange[] = (cm as any).state.lspFoldingRanges || [];
+  return ranges.reduce(
+    (outermost, range) =>
+      range.startLine === line &&
+      range.endLine > range.startLine &&
+      (!outermost || range.endLine > outermost.endLine)
+        ? range
+        : outermost,
+    null as lsProtocol.FoldingRange | null,
+  );
+}
+
+/**
+ * Folds with the ranges the server sent for the document. Until it sends any, or when it does not
+ * support them, the document is folded by indentation
+ */
+function findLspFoldRange(cm: CodeMirror.Editor, start: CodeMirror.Position) {
+  if (!(cm as any).state.lspFoldingRanges) {
+    const fold = (CodeMirror as any).fold;
+    return fold && fold.indent ? fold.indent(cm, start) : undefined;
+  }
+  const range = getFoldingRangeAt(cm, start.line);
+  if (!range) {
+    return undefined;
+  }
+  return {
+    from: {
+      line: range.startLine,
+      ch: range.startCharacter ?? cm.getLine(range.startLine).length,
+    },
+    to: {
+      line: range.endLine,
+      ch: range.endCharacter ?? cm.getLine(range.endLine).length,
+    },
+  };
+}
+
+CodeMirror.registerHelper('fold', 'lsp', findLspFoldRange);
+
 type CancelableListener = (() => void) & { cancel?: () => void };
 type CancelableHoverListener = ((position: IPosition) => void) & {
   cancel?: () => void;
@@ -37,6 +129,11 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
   public editor: CodeMirror.Editor;
   public connection: ILspConnection;
 	public snippets: lsProtocol.CompletionItem[];
+  /**
+   * Commands that run in the editor instead of on the server. Register your own to handle
+   * client-side commands that servers attach to completions and code actions
+   */
+  public commands = new CommandRegistry();
 
   private hoverMarker: CodeMirror.TextMarker;
   private signatureWidget: CodeMirror.LineWidget;
@@ -51,6 +148,17 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
   private documentListeners: { [key: string]: () => void } = {};
   private tooltip: HTMLElement;
   private isShowingContextMenu: boolean = false;
+  private progressIndicator: HTMLElement;
+  private progress: { [token: string]: lsProtocol.WorkDoneProgressBegin } = {};
+  private messageRequestDismissers: Array<() => void> = [];
+  private diagnostics: lsProtocol.Diagnostic[] = [];
+  private codeActionRequests = 0;
+  private renameMarker: CodeMirror.TextMarker;
+  private pendingFormatting: IPendingFormatting[] = [];
+  /**
+   * The fold options the editor had before folding was enabled
+   */
+  private hostFoldingOptions: { foldGutter: any; foldOptions: any } | null = null;
 
   constructor(
     connection: ILspConnection,
@@ -72,6 +180,8 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     }, this.options.quickSuggestionsDelay);
 
     this._addListeners();
+    this._registerCommands();
+    this._setFoldingOptions();
   }
 
   public updateOptions(options: ITextEditorOptions) {
@@ -79,18 +189,101 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     if (!this.options.enableDiagnostics) {
       this._clearDiagnostics();
     }
+    this._setFoldingOptions();
   }
 
   public updateSnippets(newSnippets: lsProtocol.CompletionItem[]) {
     this.snippets = newSnippets;
   }
 
+  /**
+   * Call before the host saves the document. Edits the server asks for in willSaveWaitUntil are
+   * applied to the editor before the returned promise resolves
+   */
+  public notifySave(
+    reason: lsProtocol.TextDocumentSaveReason = lsProtocol.TextDocumentSaveReason.Manual,
+  ): Promise<void> {
+    // The server has to know about the latest edits before it computes its own
+    this.connection.sendChange();
+    return this.connection.notifySave(reason).then((edits) => {
+      if (edits && edits.length) {
+        this._applyTextEdits(edits);
+        this.connection.sendChange();
+      }
+    });
+  }
+
+  /**
+   * Runs the code actions configured in `codeActionsOnSave` over the whole document, one kind after
+   * the other, and applies their edits. Call before the host saves the document
+   */
+  public runSaveParticipants(): Promise<ISaveParticipantsResult> {
+    const codeActionsOnSave = this.options.codeActionsOnSave || {};
+    const kinds = Object.keys(codeActionsOnSave).filter((kind) => codeActionsOnSave[kind]);
+    const result: ISaveParticipantsResult = { applied: [], timedOut: [], failed: [] };
+    const finished: string[] = [];
+    let isTimedOut = false;
+
+    let timer: number;
+    const timeout = new Promise<void>((resolve) => {
+      timer = window.setTimeout(() => {
+        isTimedOut = true;
+        resolve();
+      }, this.options.codeActionsOnSaveTimeout);
+    });
+    const run = kinds.reduce(
+      (previous, kind) =>
+        previous.then(() => {
+          if (isTimedOut) {
+            return;
+          }
+          return this._runCodeActionsOnSave(kind, () => isTimedOut, result.applied).then(
+            () => {
+              finished.push(kind);
+            },
+            () => {
+              finished.push(kind);
+              result.failed.push(kind);
+            },
+          );
+        }),
+      Promise.resolve(),
+    );
+
+    return Promise.race([run, timeout]).then(() => {
+      window.clearTimeout(timer);
+      result.timedOut = kinds.filter((kind) => finished.indexOf(kind) === -1);
+      return result;
+    });
+  }
+
+  /**
+   * Call after the host saved the document
+   */
+  public notifyDidSave() {
+    this.connection.notifyDidSave(this.editor.getValue());
+  }
+
+  /**
+   * Runs a command with the handler registered in `commands`, or on the server
+   */
+  public executeCommand(command: lsProtocol.Command): Promise<any> {
+    if (this.commands.has(command.command)) {
+      return this.commands.execute(command.command, command.arguments);
+    }
+    return this.connection.executeCommand(command.command, command.arguments);
+  }
+
   public handleMouseLeave() {
+    this.editor.getWrapperElement().classList.remove('CodeMirror-lsp-gutter-hover');
     // this._removeHover();
     // this._removeTooltip();
   }
 
   public handleMouseOver(ev: MouseEvent) {
+    const target = ev.target as HTMLElement;
+    const isOverGutter = !!(target.closest && target.closest('.CodeMirror-gutters, .CodeMirror-gutter-wrapper'));
+    this.editor.getWrapperElement().classList.toggle('CodeMirror-lsp-gutter-hover', isOverGutter);
     if (!this._isEventOnCharacter(ev) || this._isEventOnTooltip(ev)) {
       return;
     }
@@ -121,9 +314,23 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     }
   }
 
+  public handleDocumentChange(cm: CodeMirror.Editor, change: CodeMirror.EditorChange) {
+    // CodeMirror reports each change against the document as it was right before that change,
+    // which is the order the server applies contentChanges in
+    this.connection.queueChange({
+      range: {
+        start: { line: change.from.line, character: change.from.ch },
+        end: { line: change.to.line, character: change.to.ch },
+      },
+      text: change.text.join('\n'),
+    });
+    this._queueFormatting(change);
+  }
+
   public handleChange(cm: CodeMirror.Editor, change: CodeMirror.EditorChange) {
     const location = this.editor.getDoc().getCursor('end');
     this.connection.sendChange();
+    this._sendPendingFormatting();
     const completionCharacters = this.connection.getLanguageCompletionCharacters();
     const signatureCharacters = this.connection.getLanguageSignatureCharacters();
     const code = this.editor.getValue();
@@ -212,6 +419,96 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     this.connection.getHoverTooltip(position);
   }
 
+  /**
+   * Shows the lightbulb when the server has code actions for the lines of the selection
+   */
+  public handleCursorActivity() {
+    if (!this.options.lightbulb) {
+      return Promise.resolve();
+    }
+    const line = this.editor.getDoc().getCursor('head').line;
+    return this._getCodeActionsForSelection(lsProtocol.CodeActionTriggerKind.Automatic).then((actions) => {
+      // Null when a newer request is on its way
+      if (actions === null) {
+        return;
+      }
+      this._clearLightbulb();
+      if (actions.length) {
+        this._showLightbulb(line);
+      }
+    }).catch(() => {
+      this._clearLightbulb();
+    });
+  }
+
+  /**
+   * Opens the quick fix menu for the selection, like Ctrl+. does in VS Code
+   */
+  public handleShowCodeActions() {
+    return this._getCodeActionsForSelection(lsProtocol.CodeActionTriggerKind.Invoked).then((actions) => {
+      if (actions && actions.length) {
+        this._showCodeActionMenu(actions);
+      }
+    }).catch(() => {
+      // Whatever the lightbulb or an open menu offers can no longer be trusted
+      this._clearLightbulb();
+      this._removeTooltip();
+    });
+  }
+
+  /**
+   * Formats the whole document
+   */
+  public handleFormatDocument() {
+    if (!this.connection.isDocumentFormattingSupported()) {
+      return Promise.resolve();
+    }
+    this.connection.sendChange();
+    const generation = this.editor.getDoc().changeGeneration();
+    return this.connection
+      .formatDocument(this._getFormattingOptions())
+      .then((edits) => this._applyFormatting(edits, generation));
+  }
+
+  /**
+   * Formats the selection, or the whole document when nothing is selected
+   */
+  public handleFormatSelection() {
+    const doc = this.editor.getDoc();
+    if (!doc.somethingSelected()) {
+      return this.handleFormatDocument();
+    }
+    if (!this.connection.isRangeFormattingSupported()) {
+      return Promise.resolve();
+    }
+    this.connection.sendChange();
+    return this._formatRange(doc.getCursor('from'), doc.getCursor('to'));
+  }
+
+  /**
+   * Opens a box in place of the symbol under the cursor to type its new name in, like F2 in VS Code.
+   * Enter renames the symbol everywhere and Escape cancels
+   */
+  public handleRename() {
+    if (!this.connection.isRenameSupported()) {
+      return Promise.resolve();
+    }
+    const position = this.editor.getDoc().getCursor('head');
+    // The server has to know about the latest typing to find the symbol at the cursor
+    this.connection.sendChange();
+    return this.connection.prepareRename(position).then(
+      (result) => {
+        const target = this._getRenameTarget(position, result);
+        if (!target) {
+          this._showMessage(position, 'This element cannot be renamed');
+          return;
+        }
+        this._showRenameWidget(position, target);
+      },
+      (error: Error) => this._showMessage(position, error.message),
+    );
+  }
+
   public handleShowDiagnostics() {
     const position = this.editor.getDoc().getCursor('start');
     this._removeHover();
@@ -230,16 +527,14 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
       .map(text => `<li class="lsp-inner-li">${text}</li>`)
       .join('');
 
-    const coords = this.editor.charCoords(matching[0].start, 'local');
-    const scrollCords = this.editor.getScrollInfo();
-    const gutterWidth = this.editor.getGutterElement().offsetWidth;
-    this._showTooltip(htmlElement, {
-      x: coords.left - scrollCords.left + gutterWidth,
-      y: coords.top - scrollCords.top,
-    });
+    this._showTooltip(htmlElement, this._getTooltipCoords(matching[0].start));
   }
 
   public handleHover(response: lsProtocol.Hover, position: IPosition) {
+    if (position && this.hoverCharacter && !this._isSamePosition(position, this.hoverCharacter)) {
+      // The mouse has moved on since this was requested
+      return;
+    }
     this._removeHover();
     this._removeTooltip();
 
@@ -355,6 +650,97 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     });
   }
 
+  public handleConnectionState(state: ConnectionState) {
+    if (state === 'connected') {
+      return;
+    }
+    // Whatever the server reported is stale until it has seen the document again
+    this._clearDiagnostics();
+    this._clearLightbulb();
+    CodeMirror.signal(this.editor, 'lsp/diagnostics', []);
+    this.progress = {};
+    this._renderProgress();
+    // The server is no longer waiting for an answer
+    this._dismissMessageRequests();
+  }
+
+  public handleShowMessageRequest(
+    params: lsProtocol.ShowMessageRequestParams,
+    respond: MessageRequestResponder,
+  ) {
+    if (this.options.messageRequestProvider) {
+      this.options.messageRequestProvider(params, respond);
+      return;
+    }
+
+    const notification = document.createElement('div');
+    notification.classList.add('CodeMirror-lsp-notification');
+    const types: { [type: number]: string } = {
+      [lsProtocol.MessageType.Error]: 'error',
+      [lsProtocol.MessageType.Warning]: 'warning',
+      [lsProtocol.MessageType.Info]: 'info',
+      [lsProtocol.MessageType.Log]: 'log',
+    };
+    if (types[params.type]) {
+      notification.classList.add(`CodeMirror-lsp-notification-${types[params.type]}`);
+    }
+
+    const answer = (action: lsProtocol.MessageActionItem | null) => {
+      notification.remove();
+      this.messageRequestDismissers = this.messageRequestDismissers.filter((d) => d !== dismiss);
+      respond(action);
+    };
+    const dismiss = () => answer(null);
+
+    const message = document.createElement('div');
+    message.classList.add('CodeMirror-lsp-notification-message');
+    message.textContent = params.message;
+    notification.appendChild(message);
+
+    const buttons = document.createElement('div');
+    buttons.classList.add('CodeMirror-lsp-notification-actions');
+    (params.actions || []).forEach((action) => {
+      const button = document.createElement('button');
+      button.textContent = action.title;
+      button.addEventListener('click', () => answer(action));
+      buttons.appendChild(button);
+    });
+    const closeButton = document.createElement('button');
+    closeButton.classList.add('CodeMirror-lsp-notification-close');
+    closeButton.textContent = '\u00d7';
+    closeButton.title = 'Dismiss';
+    closeButton.addEventListener('click', dismiss);
+    buttons.appendChild(closeButton);
+    notification.appendChild(buttons);
+
+    this.messageRequestDismissers.push(dismiss);
+    this.editor.getWrapperElement().appendChild(notification);
+  }
+
+  public handleApplyEdit(params: lsProtocol.ApplyWorkspaceEditParams, respond: ApplyEditResponder) {
+    this._applyWorkspaceEdit(params.edit).then(respond, (e) =>
+      respond({ applied: false, failureReason: String((e && e.message) || e) }),
+    );
+  }
+
+  public handleFoldingRanges(ranges: lsProtocol.FoldingRange[]) {
+    (this.editor as any).state.lspFoldingRanges = ranges;
+    // The fold gutter only updates its markers when the document changes, which was before the ranges
+    this._setFoldingOptions();
+  }
+
+  public handleProgress(progress: WorkDoneProgress, token: lsProtocol.ProgressToken) {
+    const key = String(token);
+    if (progress.kind === 'begin') {
+      this.progress[key] = progress;
+    } else if (progress.kind === 'report' && this.progress[key]) {
+      this.progress[key] = Object.assign({}, this.progress[key], progress, { kind: 'begin' });
+    } else if (progress.kind === 'end') {
+      delete this.progress[key];
+    }
+    this._renderProgress();
+  }
+
   private _showTooltipWithData(tooltipData: TooltipData) {
     if (tooltipData.hasData) {
       this._showTooltip(tooltipData.htmlElement, {
@@ -368,10 +754,13 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     this._highlightRanges((items || []).map(i => i.range));
   }
 
-  public handleCompletion(completions: lsProtocol.CompletionItem[]): void {
+  public handleCompletion(completions: lsProtocol.CompletionItem[], location?: IPosition): void {
     if (!this.token || !this.options.suggest) {
       return;
     }
+    if (location && !this._isSamePosition(location, this.editor.getDoc().getCursor('end'))) {
+      return;
+    }
 
     const bestCompletions = this._getFilteredCompletions(
       this.token.text,
@@ -401,7 +790,7 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
   }
   private _getHintList(hints: lsProtocol.CompletionItem[]) {
     // @ts-ignore
-    return hints.map(({ label, labelDetails, insertText, kind }) => {
+    return hints.map(({ label, labelDetails, insertText, kind, command }) => {
       return {
         text: insertText || label,
         displayText: label,
@@ -443,6 +832,11 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
 
             cm.setCursor(cursorLine,cursorCh);
           }
+
+          if (command) {
+            this.connection.sendChange();
+            this.executeCommand(command);
+          }
         }
       };
     });
@@ -502,6 +896,7 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
   }
   private _clearDiagnostics() {
     this.editor.clearGutter('CodeMirror-lsp');
+    this.diagnostics = [];
     this.markedDiagnostics.forEach(marker => {
       marker.clear();
     });
@@ -511,6 +906,7 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
   public handleDiagnostic(response: lsProtocol.PublishDiagnosticsParams) {
     if (!this.options.enableDiagnostics) return;
     this._clearDiagnostics();
+    this.diagnostics = response.diagnostics;
     CodeMirror.signal(this.editor, 'lsp/diagnostics', response.diagnostics);
     response.diagnostics.forEach((diagnostic: lsProtocol.Diagnostic) => {
       const start = {
@@ -550,7 +946,10 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     });
   }
 
-  public handleSignature(result: lsProtocol.SignatureHelp) {
+  public handleSignature(result: lsProtocol.SignatureHelp, location?: IPosition) {
+    if (location && !this._isSamePosition(location, this.editor.getDoc().getCursor('end'))) {
+      return;
+    }
     this._removeSignatureWidget();
     this._removeTooltip();
     if (!this.options.enableSignatures || !result || !result.signatures.length || !this.token) {
@@ -618,15 +1017,26 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
   public remove() {
     this.debouncedGetHover.cancel?.();
     (this.editorListeners.change as CancelableListener | undefined)?.cancel?.();
+    (this.editorListeners.cursorActivity as CancelableListener | undefined)?.cancel?.();
     this._removeSignatureWidget();
     this._removeHover();
     this._removeTooltip();
     this._clearDiagnostics();
+    this._clearLightbulb();
+    this._removeRenameWidget();
+    this.pendingFormatting.forEach(({ marker }) => marker.clear());
+    this.pendingFormatting = [];
+    this._restoreFoldingOptions();
+    delete (this.editor as any).state.lspFoldingRanges;
+    this.progress = {};
+    this._renderProgress();
+    this._dismissMessageRequests();
     // Show-hint addon doesn't remove itself. This could remove other uses in the project
     this.editor
       .getWrapperElement()
       .querySelectorAll('.CodeMirror-hints')
       .forEach(e => e.remove());
+    this.editor.off('change', this.editorListeners.documentChange);
     this.editor.off('change', this.editorListeners.change);
     this.editor.off('cursorActivity', this.editorListeners.cursorActivity);
     this.editor.off('refresh', this.editorListeners.refresh);
@@ -647,9 +1057,14 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
       this.connection.off(key as any, this.connectionListeners[key]);
     });
     document.removeEventListener('click', this.documentListeners.clickOutside);
+    this.connection.closeDocument();
   }
 
   private _addListeners() {
+    const documentChangeListener = this.handleDocumentChange.bind(this);
+    this.editor.on('change', documentChangeListener);
+    this.editorListeners.documentChange = documentChangeListener;
+
     const changeListener = debounce(
       this.handleChange.bind(this),
       this.options.debounceSuggestionsWhileTyping
@@ -668,6 +1083,10 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
       completion: this.handleCompletion.bind(self),
       signature: this.handleSignature.bind(self),
       diagnostic: this.handleDiagnostic.bind(self),
+      connectionState: this.handleConnectionState.bind(self),
+      progress: this.handleProgress.bind(self),
+      showMessageRequest: this.handleShowMessageRequest.bind(self),
+      applyEdit: this.handleApplyEdit.bind(self),
       // goTo: this.handleGoTo.bind(self),
     };
 
@@ -707,6 +1126,13 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     // this.editor.on('cursorActivity', debouncedCursor);
     // this.editorListeners.cursorActivity = debouncedCursor;
 
+    const cursorActivityListener = debounce(
+      this.handleCursorActivity.bind(this),
+      this.options.quickSuggestionsDelay,
+    );
+    this.editor.on('cursorActivity', cursorActivityListener);
+    this.editorListeners.cursorActivity = cursorActivityListener;
+
     const clickOutsideListener = this._handleClickOutside.bind(this);
     document.addEventListener('click', clickOutsideListener);
     this.documentListeners.clickOutside = clickOutsideListener;
@@ -723,6 +1149,18 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
 
     const showDiagnosticsListener = this.handleShowDiagnostics.bind(this);
     this.editorListeners.showDiagnostics = showDiagnosticsListener;
+
+    const showCodeActionsListener = this.handleShowCodeActions.bind(this);
+    this.editorListeners.showCodeActions = showCodeActionsListener;
+
+    const renameListener = this.handleRename.bind(this);
+    this.editorListeners.rename = renameListener;
+
+    const formatDocumentListener = this.handleFormatDocument.bind(this);
+    this.editorListeners.formatDocument = formatDocumentListener;
+
+    const formatSelectionListener = this.handleFormatSelection.bind(this);
+    this.editorListeners.formatSelection = formatSelectionListener;
   }
 
   private _getTokenEndingAtPosition(
@@ -844,7 +1282,8 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     if (
       !this.connection.isDefinitionSupported() &&
       !this.connection.isTypeDefinitionSupported() &&
-      !this.connection.isReferencesSupported()
+      !this.connection.isReferencesSupported() &&
+      !this.connection.isCodeActionSupported()
     ) {
       return;
     }
@@ -859,63 +1298,143 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
       'window'
     );
 
-    if (this.options.contextMenuProvider) {
-      let features: Array<{ label: String; action: any }> = [];
-      if (this.connection.isDefinitionSupported()) {
-        features.push({
-          label: 'Go to Definition',
-          action: () => this.connection.getDefinition(docPosition),
-        });
-      }
-      if (this.connection.isTypeDefinitionSupported()) {
-        features.push({
-          label: 'Go to Type Definition',
-          action: () => this.connection.getTypeDefinition(docPosition),
-        });
-      }
-      if (this.connection.isReferencesSupported()) {
-        features.push({
-          label: 'Find all References',
-          action: () => this.connection.getReferences(docPosition),
-        });
-      }
-      this.options.contextMenuProvider(ev, features);
-    } else {
-      const htmlElement = document.createElement('div');
-      htmlElement.classList.add('CodeMirror-lsp-context');
-
-      if (this.connection.isDefinitionSupported()) {
-        const goToDefinition = document.createElement('div');
-        goToDefinition.innerText = 'Go to Definition';
-        goToDefinition.addEventListener('click', () => {
-          this.connection.getDefinition(docPosition);
-        });
-        htmlElement.appendChild(goToDefinition);
-      }
+    const items = this._getContextMenuItems(docPosition);
+    if (!this.connection.isCodeActionSupported()) {
+      this._showContextMenu(ev, items);
+      return;
+    }
+    this._getRefactorings(docPosition)
+      .then((refactorings) => {
+        if (refactorings.length) {
+          items.push({ label: 'Refactor…', children: refactorings });
+        }
+      })
+      .catch(() => {
+        // The other items do not depend on the refactorings
+      })
+      .then(() => {
+        this._showContextMenu(ev, items);
+      });
+  }
 
-      if (this.connection.isTypeDefinitionSupported()) {
-        const goToTypeDefinition = document.createElement('div');
-        goToTypeDefinition.innerText = 'Go to Type Definition';
-        goToTypeDefinition.addEventListener('click', () => {
-          this.connection.getTypeDefinition(docPosition);
-        });
-        htmlElement.appendChild(goToTypeDefinition);
-      }
+  private _getContextMenuItems(docPosition: IPosition): IContextMenuItem[] {
+    const items: IContextMenuItem[] = [];
+    if (this.connection.isDefinitionSupported()) {
+      items.push({
+        label: 'Go to Definition',
+        action: () => this.connection.getDefinition(docPosition),
+      });
+    }
+    if (this.connection.isTypeDefinitionSupported()) {
+      items.push({
+        label: 'Go to Type Definition',
+        action: () => this.connection.getTypeDefinition(docPosition),
+      });
+    }
+    if (this.connection.isReferencesSupported()) {
+      items.push({
+        label: 'Find all References',
+        action: () => this.connection.getReferences(docPosition),
+      });
+    }
+    return items;
+  }
 
-      if (this.connection.isReferencesSupported()) {
-        const getReferences = document.createElement('div');
-        getReferences.innerText = 'Find all References';
-        getReferences.addEventListener('click', () => {
-          this.connection.getReferences(docPosition);
+  /**
+   * Asks for the refactorings of the selection, or of the position that was clicked when nothing is
+   * selected, and groups them by kind
+   */
+  private _getRefactorings(docPosition: IPosition): Promise<IContextMenuItem[]> {
+    const doc = this.editor.getDoc();
+    const from = doc.somethingSelected() ? doc.getCursor('from') : docPosition;
+    const to = doc.somethingSelected() ? doc.getCursor('to') : docPosition;
+    const range = {
+      start: { line: from.line, character: from.ch },
+      end: { line: to.line, character: to.ch },
+    };
+
+    return this.connection
+      .getCodeActions(range, {
+        diagnostics: this._getDiagnosticsInRange(range),
+        only: [lsProtocol.CodeActionKind.Refactor],
+        triggerKind: lsProtocol.CodeActionTriggerKind.Invoked,
+      })
+      .then((actions) => {
+        const groups = refactorGroups.map((group) => ({ label: group.label, children: [] as IContextMenuItem[] }));
+        ((actions || []) as lsProtocol.CodeAction[]).forEach((action) => {
+          const index = refactorGroups.findIndex(
+            (group) => action.kind === group.kind || (action.kind || '').indexOf(group.kind + '.') === 0,
+          );
+          groups[index].children.push({
+            label: action.title,
+            action: action.disabled ? undefined : () => this._applyCodeAction(action),
+            disabledReason: action.disabled ? action.disabled.reason : undefined,
+          });
         });
-        htmlElement.appendChild(getReferences);
+        return groups.filter((group) => group.children.length);
+      });
+  }
+
+  /**
+   * Hands the items to the contextMenuProvider, or shows them in the editor's own menu
+   */
+  private _showContextMenu(ev: MouseEvent, items: IContextMenuItem[]) {
+    if (!items.length) {
+      return;
+    }
+    if (this.options.contextMenuProvider) {
+      this.options.contextMenuProvider(ev, items);
+      return;
+    }
+    this._showTooltip(this._renderContextMenu(items), {
+      x: ev.x - 4,
+      y: ev.y + 8,
+    });
+  }
+
+  /**
+   * Items with children are submenus at the top and groups with a heading further down
+   */
+  private _renderContextMenu(items: IContextMenuItem[], isSubmenu = false): HTMLElement {
+    const htmlElement = document.createElement('div');
+    htmlElement.classList.add('CodeMirror-lsp-context');
+
+    items.forEach((item) => {
+      if (item.children && isSubmenu) {
+        const heading = document.createElement('div');
+        heading.classList.add('CodeMirror-lsp-context-group');
+        heading.innerText = item.label;
+        htmlElement.appendChild(heading);
+        item.children.forEach((child) => htmlElement.appendChild(this._renderContextMenuItem(child)));
+        return;
       }
-      // const coords = this.editor.charCoords(docPosition, 'local');
-      this._showTooltip(htmlElement, {
-        x: ev.x - 4,
-        y: ev.y + 8,
+      const itemElement = this._renderContextMenuItem(item);
+      if (item.children) {
+        itemElement.classList.add('CodeMirror-lsp-submenu');
+        itemElement.appendChild(this._renderContextMenu(item.children, true));
+      }
+      htmlElement.appendChild(itemElement);
+    });
+    return htmlElement;
+  }
+
+  private _renderContextMenuItem(item: IContextMenuItem): HTMLElement {
+    const itemElement = document.createElement('div');
+    itemElement.innerText = item.label;
+    if (item.disabledReason !== undefined) {
+      itemElement.classList.add('CodeMirror-lsp-disabled');
+      const reason = document.createElement('span');
+      reason.classList.add('CodeMirror-lsp-disabled-reason');
+      reason.innerText = item.disabledReason;
+      itemElement.appendChild(reason);
+    }
+    if (item.action) {
+      itemElement.addEventListener('click', () => {
+        this._removeTooltip();
+        item.action();
       });
     }
+    return itemElement;
   }
 
   private _handleClickInside(ev: MouseEvent) {
@@ -978,6 +1497,26 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     }
   }
 
+  private _getTooltipCoords(position: IPosition): IScreenCoord {
+    const coords = this.editor.charCoords(position, 'local');
+    const scrollCords = this.editor.getScrollInfo();
+    const gutterWidth = this.editor.getGutterElement().offsetWidth;
+    return {
+      x: coords.left - scrollCords.left + gutterWidth,
+      y: coords.top - scrollCords.top,
+    };
+  }
+
+  /**
+   * Tells the user why something did not work, like a rename that the server refused
+   */
+  private _showMessage(position: IPosition, message: string) {
+    const htmlElement = document.createElement('div');
+    htmlElement.classList.add('CodeMirror-lsp-message');
+    htmlElement.innerText = message;
+    this._showTooltip(htmlElement, this._getTooltipCoords(position));
+  }
+
   private _removeSignatureWidget() {
     if (this.signatureWidget) {
       this.signatureWidget.clear();
@@ -995,6 +1534,10 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     }
   }
 
+  private _isSamePosition(a: IPosition, b: IPosition) {
+    return a.line === b.line && a.ch === b.ch;
+  }
+
   private _getDiagnosticsAtPosition(position: IPosition): ITokenInfo[] {
     return this.diagnosticResults.filter((diagnostic: ITokenInfo) => {
       const isMultiLine = diagnostic.start.line !== diagnostic.end.line;
@@ -1012,6 +1555,600 @@ class CodeMirrorAdapter extends IEditorAdapter<CodeMirror.Editor> {
     });
   }
 
+  /**
+   * Asks for the code actions of the selection, or of the whole line when nothing is selected, so
+   * that the fixes for every diagnostic on it are found. Resolves with null when a newer request
+   * was made in the meantime. Disabled actions are left out
+   */
+  private _getCodeActionsForSelection(
+    triggerKind: lsProtocol.CodeActionTriggerKind,
+  ): Promise<Array<lsProtocol.Command | lsProtocol.CodeAction> | null> {
+    const request = ++this.codeActionRequests;
+    if (!this.connection.isCodeActionSupported()) {
+      return Promise.resolve([]);
+    }
+    const doc = this.editor.getDoc();
+    const from = doc.getCursor('from');
+    const to = doc.getCursor('to');
+    const range = this._isSamePosition(from, to)
+      ? {
+          start: { line: from.line, character: 0 },
+          end: { line: from.line, character: doc.getLine(from.line).length },
+        }
+      : {
+          start: { line: from.line, character: from.ch },
+          end: { line: to.line, character: to.ch },
+        };
+    const diagnostics = this._getDiagnosticsInRange(range);
+
+    return this.connection.getCodeActions(range, { diagnostics, triggerKind }).then((actions) => {
+      if (request !== this.codeActionRequests) {
+        return null;
+      }
+      return (actions || []).filter((action) => lsProtocol.Command.is(action) || !action.disabled);
+    });
+  }
+
+  /**
+   * The diagnostics on the lines of the range, which the server may have fixes for
+   */
+  private _getDiagnosticsInRange(range: lsProtocol.Range): lsProtocol.Diagnostic[] {
+    return this.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.range.start.line <= range.end.line && diagnostic.range.end.line >= range.start.line,
+    );
+  }
+
+  private _showLightbulb(line: number) {
+    const lightbulb = document.createElement('div');
+    lightbulb.classList.add('CodeMirror-lsp-lightbulb');
+    lightbulb.title = 'Show Code Actions';
+    lightbulb.addEventListener('click', () => {
+      this.handleShowCodeActions();
+    });
+    this.editor.setGutterMarker(line, 'CodeMirror-lsp-actions', lightbulb);
+  }
+
+  private _clearLightbulb() {
+    this.editor.clearGutter('CodeMirror-lsp-actions');
+  }
+
+  /**
+   * Lists the actions below the cursor. The menu takes the focus, so it can be used with the arrow
+   * keys, Enter and Escape
+   */
+  private _showCodeActionMenu(actions: Array<lsProtocol.Command | lsProtocol.CodeAction>) {
+    const htmlElement = document.createElement('div');
+    htmlElement.classList.add('CodeMirror-lsp-context', 'CodeMirror-lsp-codeactions');
+
+    const close = () => {
+      this._removeTooltip();
+      this.editor.focus();
+    };
+    const choose = (action: lsProtocol.Command | lsProtocol.CodeAction) => {
+      close();
+      this._applyCodeAction(action);
+    };
+
+    const items = actions.map((action) => {
+      const item = document.createElement('div');
+      item.innerText = action.title;
+      if (!lsProtocol.Command.is(action) && action.isPreferred) {
+        item.classList.add('CodeMirror-lsp-codeaction-preferred');
+      }
+      item.addEventListener('click', () => choose(action));
+      htmlElement.appendChild(item);
+      return item;
+    });
+
+    let selected = 0;
+    const select = (index: number) => {
+      items[selected].classList.remove('CodeMirror-lsp-active');
+      selected = (index + items.length) % items.length;
+      items[selected].classList.add('CodeMirror-lsp-active');
+      items[selected].scrollIntoView({ block: 'nearest' });
+    };
+
+    this._showTooltip(htmlElement, this._getTooltipCoords(this.editor.getDoc().getCursor('head')));
+    select(0);
+
+    this.tooltip.addEventListener('keydown', (ev: KeyboardEvent) => {
+      switch (ev.key) {
+        case 'ArrowDown':
+          select(selected + 1);
+          break;
+        case 'ArrowUp':
+          select(selected - 1);
+          break;
+        case 'Enter':
+          choose(actions[selected]);
+          break;
+        case 'Escape':
+          close();
+          break;
+        default:
+          return;
+      }
+      ev.preventDefault();
+      ev.stopPropagation();
+    });
+    this.tooltip.focus();
+  }
+
+  /**
+   * Applies the edit of a code action, which is resolved first when the server left it out, and then
+   * runs its command
+   */
+  private _applyCodeAction(action: lsProtocol.Command | lsProtocol.CodeAction): Promise<void> {
+    if (lsProtocol.Command.is(action)) {
+      return this.executeCommand(action);
+    }
+    const resolve = action.edit
+      ? Promise.resolve(action)
+      : this.connection.resolveCodeAction(action).then((resolved) => resolved || action);
+
+    return resolve.then((resolved) => {
+      const applyEdit = resolved.edit
+        ? this._applyWorkspaceEdit(resolved.edit)
+        : Promise.resolve({ applied: true } as lsProtocol.ApplyWorkspaceEditResult);
+      return applyEdit.then((result) => {
+        if (result.applied && resolved.command) {
+          return this.executeCommand(resolved.command);
+        }
+      });
+    });
+  }
+
+  private _getFormattingOptions(): lsProtocol.FormattingOptions {
+    return {
+      tabSize: this.editor.getOption('tabSize'),
+      insertSpaces: !this.editor.getOption('indentWithTabs'),
+    };
+  }
+
+  /**
+   * Remembers pasted text and typed trigger characters for every change, because the debounced
+   * handler only sees the last change of the ones that were made in a row
+   */
+  private _queueFormatting(change: CodeMirror.EditorChange) {
+    const doc = this.editor.getDoc();
+    if (change.origin === 'paste') {
+      if (this.options.formatOnPaste && this.connection.isRangeFormattingSupported()) {
+        this.pendingFormatting.push({ marker: doc.markText(change.from, CodeMirror.changeEnd(change)) });
+      }
+      return;
+    }
+    if (change.origin !== '+input' || !this.options.formatOnType) {
+      return;
+    }
+    const location = CodeMirror.changeEnd(change);
+    const typedCharacter = this._getTypedCharacter(change, location);
+    if (!typedCharacter || this.connection.getFormatOnTypeCharacters().indexOf(typedCharacter) === -1) {
+      return;
+    }
+    this.pendingFormatting.push({ marker: doc.setBookmark(location), typedCharacter });
+  }
+
+  /**
+   * Call after the changes were sent, so the server formats the text it knows
+   */
+  private _sendPendingFormatting() {
+    const pending = this.pendingFormatting;
+    this.pendingFormatting = [];
+    pending.forEach(({ marker, typedCharacter }) => {
+      const found = marker.find();
+      marker.clear();
+      if (!found) {
+        return;
+      }
+      if ('from' in found) {
+        this._formatRange(found.from, found.to);
+        return;
+      }
+      const location = { line: found.line, ch: found.ch };
+      const generation = this.editor.getDoc().changeGeneration();
+      this.connection
+        .formatOnType(location, typedCharacter, this._getFormattingOptions())
+        .then((edits) => this._applyFormatting(edits, generation));
+    });
+  }
+
+  /**
+   * The character that was typed last, where a new line counts as '\n' even after the editor indented it
+   */
+  private _getTypedCharacter(change: CodeMirror.EditorChange, location: IPosition): string | null {
+    if (change.text.length === 1 && change.text[0].length === 1) {
+      return change.text[0];
+    }
+    if (change.text.length === 2 && !change.text[0] && !change.text[1]) {
+      return '\n';
+    }
+    const isIndentation = change.from.ch === 0 && change.text.length === 1 && !change.text[0].trim();
+    if (isIndentation && !this.editor.getLine(location.line).slice(0, location.ch).trim()) {
+      return '\n';
+    }
+    return null;
+  }
+
+  private _formatRange(from: IPosition, to: IPosition): Promise<void> {
+    const generation = this.editor.getDoc().changeGeneration();
+    return this.connection
+      .formatRange(
+        {
+          start: { line: from.line, character: from.ch },
+          end: { line: to.line, character: to.ch },
+        },
+        this._getFormattingOptions(),
+      )
+      .then((edits) => this._applyFormatting(edits, generation));
+  }
+
+  /**
+   * Applies the edits as one undo step, unless the document changed while the server was formatting
+   */
+  private _applyFormatting(edits: lsProtocol.TextEdit[] | null, generation: number) {
+    if (!edits || !edits.length || !this.editor.getDoc().isClean(generation)) {
+      return;
+    }
+    this._applyTextEdits(edits);
+    this.connection.sendChange();
+  }
+
+  /**
+   * Servers that do not check the position themselves leave it to the editor to find the identifier
+   */
+  private _getRenameTarget(position: IPosition, result: lsProtocol.PrepareRenameResult | null): IRenameTarget | null {
+    if (!result) {
+      return null;
+    }
+    const doc = this.editor.getDoc();
+    let from: IPosition;
+    let to: IPosition;
+    if ('defaultBehavior' in result) {
+      const word = this.editor.findWordAt(position);
+      from = word.anchor;
+      to = word.head;
+    } else {
+      const range = 'range' in result ? result.range : result;
+      from = { line: range.start.line, ch: range.start.character };
+      to = { line: range.end.line, ch: range.end.character };
+    }
+    const text = doc.getRange(from, to);
+    if (!text.trim()) {
+      return null;
+    }
+    return {
+      from,
+      to,
+      placeholder: 'placeholder' in result ? result.placeholder : text,
+    };
+  }
+
+  private _showRenameWidget(position: IPosition, target: IRenameTarget) {
+    this._removeRenameWidget();
+    const input = document.createElement('input');
+    input.classList.add('CodeMirror-lsp-rename');
+    input.value = target.placeholder;
+    input.size = Math.max(target.placeholder.length + 2, 10);
+    this.renameMarker = this.editor.getDoc().markText(target.from, target.to, {
+      replacedWith: input,
+    });
+
+    let isDone = false;
+    const finish = (newName: string | null) => {
+      if (isDone) {
+        return;
+      }
+      isDone = true;
+      this._removeRenameWidget();
+      this.editor.focus();
+      if (newName && newName !== target.placeholder) {
+        this._rename(position, newName);
+      }
+    };
+    input.addEventListener('keydown', (ev: KeyboardEvent) => {
+      if (ev.key === 'Enter') {
+        finish(input.value);
+      } else if (ev.key === 'Escape') {
+        finish(null);
+      } else {
+        return;
+      }
+      ev.preventDefault();
+      ev.stopPropagation();
+    });
+    input.addEventListener('blur', () => finish(null));
+    input.focus();
+    input.select();
+  }
+
+  private _removeRenameWidget() {
+    if (this.renameMarker) {
+      this.renameMarker.clear();
+      this.renameMarker = null;
+    }
+  }
+
+  /**
+   * Applies the edits to this document as one undo step, and hands the edits to other documents to
+   * the workspaceEditProvider
+   */
+  private _rename(position: IPosition, newName: string): Promise<void> {
+    this.connection.sendChange();
+    return this.connection
+      .rename(position, newName)
+      .then((edit) => (edit ? this._applyWorkspaceEdit(edit) : null))
+      .then(
+        (result) => {
+          if (result && !result.applied) {
+            this._showMessage(position, result.failureReason);
+          }
+        },
+        (error: Error) => this._showMessage(position, error.message),
+      );
+  }
+
+  /**
+   * Configures the foldcode and foldgutter addons, which the host has to load. Setting the gutter
+   * option again also redraws its markers
+   */
+  private _setFoldingOptions() {
+    const editor = this.editor as any;
+    // Editors without the fold gutter are left alone, so the default does not change them
+    const gutters: string[] = editor.getOption('gutters') || [];
+    const isFolding = this.options.folding && gutters.indexOf('CodeMirror-foldgutter') !== -1;
+    const isUsingRanges = isFolding && this.options.foldingStrategy === 'auto';
+    if (isUsingRanges && !this.connectionListeners.foldingRanges) {
+      // The connection only asks the server for the ranges while someone listens
+      this.connectionListeners.foldingRanges = this.handleFoldingRanges.bind(this);
+      this.connection.on('foldingRanges', this.connectionListeners.foldingRanges);
+      this.connection.getFoldingRanges().catch(() => {
+        // The document is folded by indentation until the next change brings the ranges
+      });
+    } else if (!isUsingRanges && this.connectionListeners.foldingRanges) {
+      this.connection.off('foldingRanges', this.connectionListeners.foldingRanges);
+      delete this.connectionListeners.foldingRanges;
+      delete editor.state.lspFoldingRanges;
+    }
+
+    if (!isFolding) {
+      this._restoreFoldingOptions();
+      return;
+    }
+    if (!this.hostFoldingOptions) {
+      this.hostFoldingOptions = {
+        foldGutter: editor.getOption('foldGutter'),
+        foldOptions: editor.getOption('foldOptions'),
+      };
+    }
+    const fold = (CodeMirror as any).fold || {};
+    const isAuto = this.options.foldingStrategy === 'auto';
+    editor.setOption('foldOptions', {
+      rangeFinder: isAuto ? findLspFoldRange : fold.indent,
+      widget: isAuto ? this._getFoldWidgetText.bind(this) : undefined,
+    });
+    editor.setOption('foldGutter', {
+      indicatorOpen:
+        this.options.showFoldingControls === 'mouseover'
+          ? 'CodeMirror-foldgutter-open CodeMirror-lsp-fold-mouseover'
+          : 'CodeMirror-foldgutter-open',
+    });
+  }
+
+  private _restoreFoldingOptions() {
+    if (!this.hostFoldingOptions) {
+      return;
+    }
+    const editor = this.editor as any;
+    editor.setOption('foldOptions', this.hostFoldingOptions.foldOptions);
+    editor.setOption('foldGutter', this.hostFoldingOptions.foldGutter);
+    this.hostFoldingOptions = null;
+  }
+
+  private _getFoldWidgetText(from: IPosition): string {
+    const range = getFoldingRangeAt(this.editor, from.line);
+    if (range && range.collapsedText) {
+      return range.collapsedText;
+    }
+    return range && range.kind ? `\u2194 ${range.kind}` : '\u2194';
+  }
+
+  private _registerCommands() {
+    this.commands.register('editor.action.triggerSuggest', () => this.handleTriggerSuggest());
+    this.commands.register(
+      'editor.action.showReferences',
+      (uri: string, position: lsProtocol.Position, locations: Location[]) => this.handleGoTo(locations),
+    );
+  }
+
+  private _dismissMessageRequests() {
+    this.messageRequestDismissers.slice().forEach((dismiss) => dismiss());
+  }
+
+  /**
+   * Shows the most recent progress that has not ended yet
+   */
+  private _renderProgress() {
+    const keys = Object.keys(this.progress);
+    if (!this.options.enableProgressIndicator || !keys.length) {
+      if (this.progressIndicator) {
+        this.progressIndicator.remove();
+        this.progressIndicator = null;
+      }
+      return;
+    }
+
+    const progress = this.progress[keys[keys.length - 1]];
+    let text = progress.title;
+    if (progress.message) {
+      text += `: ${progress.message}`;
+    }
+    if (typeof progress.percentage === 'number') {
+      text += ` (${Math.round(progress.percentage)}%)`;
+    }
+
+    if (!this.progressIndicator) {
+      this.progressIndicator = document.createElement('div');
+      this.progressIndicator.classList.add('CodeMirror-lsp-progress');
+      this.editor.getWrapperElement().appendChild(this.progressIndicator);
+    }
+    this.progressIndicator.textContent = text;
+  }
+
+  private _runCodeActionsOnSave(
+    kind: string,
+    isCancelled: () => boolean,
+    applied: string[],
+  ): Promise<void> {
+    const doc = this.editor.getDoc();
+    const lastLine = doc.lastLine();
+    const range = {
+      start: { line: 0, character: 0 },
+      end: { line: lastLine, character: doc.getLine(lastLine).length },
+    };
+    this.connection.sendChange();
+
+    return this.connection
+      .getCodeActions(range, {
+        diagnostics: [],
+        only: [kind],
+        triggerKind: lsProtocol.CodeActionTriggerKind.Automatic,
+      })
+      .then((actions) => {
+        // Servers may return more than was asked for
+        const matching = (actions || []).filter(
+          (action) =>
+            !lsProtocol.Command.is(action) &&
+            (action.kind === kind || (action.kind || '').indexOf(kind + '.') === 0),
+        ) as lsProtocol.CodeAction[];
+
+        return matching.reduce(
+          (previous, action) =>
+            previous.then(() => {
+              if (isCancelled()) {
+                return;
+              }
+              const resolve = action.edit ? Promise.resolve(action) : this.connection.resolveCodeAction(action);
+              return resolve.then((resolved) => {
+                if (isCancelled() || !resolved || !resolved.edit) {
+                  return;
+                }
+                return this._applyWorkspaceEdit(resolved.edit).then((editResult) => {
+                  if (!editResult.applied) {
+                    return;
+                  }
+                  applied.push(resolved.title);
+                  if (resolved.command) {
+                    return this.executeCommand(resolved.command);
+                  }
+                });
+              });
+            }),
+          Promise.resolve(),
+        );
+      });
+  }
+
+  /**
+   * Applies the edits for this editor's document as one undoable operation, after the host applied
+   * everything else. Nothing is applied to the document when the host fails
+   */
+  private _applyWorkspaceEdit(edit: lsProtocol.WorkspaceEdit): Promise<lsProtocol.ApplyWorkspaceEditResult> {
+    const { edits, version, others } = this._divideWorkspaceEdit(edit);
+    // The server cannot have seen the edits that are still queued, whether its edit has a version or not
+    const isStale = this.connection.hasQueuedChanges() ||
+      (version !== null && version !== this.connection.getDocumentVersion());
+    if (edits.length && isStale) {
+      return Promise.resolve({
+        applied: false,
+        failureReason: 'The document changed after the edit was computed',
+      });
+    }
+
+    let applyOthers: Promise<boolean> = Promise.resolve(true);
+    if (others) {
+      if (!this.options.workspaceEditProvider) {
+        return Promise.resolve({
+          applied: false,
+          failureReason: 'The edit changes other documents and there is no workspaceEditProvider',
+        });
+      }
+      applyOthers = Promise.resolve(this.options.workspaceEditProvider(others));
+    }
+
+    return applyOthers.then((isApplied) => {
+      if (!isApplied) {
+        return { applied: false, failureReason: 'The edit could not be applied to the other documents' };
+      }
+      if (edits.length) {
+        this._applyTextEdits(edits);
+        this.connection.sendChange();
+      }
+      return { applied: true };
+    });
+  }
+
+  /**
+   * Divides a workspace edit into the edits for this editor's document and the rest. Like the server,
+   * it prefers `documentChanges` over `changes`
+   */
+  private _divideWorkspaceEdit(edit: lsProtocol.WorkspaceEdit): IDividedWorkspaceEdit {
+    const documentUri = this.connection.getDocumentUri();
+    const divided: IDividedWorkspaceEdit = { edits: [], version: null, others: null };
+    const others: lsProtocol.WorkspaceEdit = {};
+
+    if (edit.documentChanges) {
+      edit.documentChanges.forEach((change) => {
+        if (lsProtocol.TextDocumentEdit.is(change) && change.textDocument.uri === documentUri) {
+          divided.edits = divided.edits.concat(change.edits as lsProtocol.TextEdit[]);
+          if (typeof change.textDocument.version === 'number') {
+            divided.version = change.textDocument.version;
+          }
+        } else {
+          others.documentChanges = (others.documentChanges || []).concat([change]);
+        }
+      });
+    } else if (edit.changes) {
+      Object.keys(edit.changes).forEach((uri) => {
+        if (uri === documentUri) {
+          divided.edits = edit.changes[uri];
+        } else {
+          others.changes = Object.assign({}, others.changes, { [uri]: edit.changes[uri] });
+        }
+      });
+    }
+
+    if (others.documentChanges || others.changes) {
+      if (edit.changeAnnotations) {
+        others.changeAnnotations = edit.changeAnnotations;
+      }
+      divided.others = others;
+    }
+    return divided;
+  }
+
+  private _applyTextEdits(edits: lsProtocol.TextEdit[]) {
+    const doc = this.editor.getDoc();
+    // Apply the edits from the end of the document so they don't move each other's ranges. Edits
+    // that start at the same position are inserted in the order the server sent them
+    const ordered = edits
+      .map((edit, index) => ({ edit, index }))
+      .sort((a, b) => {
+        const aStart = a.edit.range.start;
+        const bStart = b.edit.range.start;
+        return bStart.line - aStart.line || bStart.character - aStart.character || b.index - a.index;
+      });
+    this.editor.operation(() => {
+      ordered.forEach(({ edit }) => {
+        doc.replaceRange(
+          edit.newText,
+          { line: edit.range.start.line, ch: edit.range.start.character },
+          { line: edit.range.end.line, ch: edit.range.end.character },
+        );
+      });
+    });
+  }
+
   private _unhighlightRanges() {
     if (this.highlightMarkers) {
       this.highlightMarkers.forEach(marker => {
@@ -0,0 +1,39 @@
+export type CommandHandler = (...args: any[]) => any;
+
+/**
+ * Commands that the client runs itself instead of the server, like `editor.action.triggerSuggest`
+ */
+export class CommandRegistry {
+  private handlers: { [command: string]: CommandHandler } = {};
+
+  /**
+   * Replaces the handler that was registered for the command before. Returns a function that
+   * unregisters the handler again
+   */
+  public register(command: string, handler: CommandHandler): () => void {
+    this.handlers[command] = handler;
+    return () => {
+      if (this.handlers[command] === handler) {
+        delete this.handlers[command];
+      }
+    };
+  }
+
+  public has(command: string): boolean {
+    return this.handlers.hasOwnProperty(command);
+  }
+
+  /**
+   * Resolves with whatever the handler returns
+   */
+  public execute(command: string, args: any[] = []): Promise<any> {
+    if (!this.has(command)) {
+      return Promise.reject(new Error(`No handler is registered for the command ${command}`));
+    }
+    try {
+      return Promise.resolve(this.handlers[command](...args));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+}
@@ -2,3 +2,9 @@ declare module "*.svg" {
   const content: any;
   export default content;
 }
+
+// The browser entry of vscode-jsonrpc also accepts the global scope of a worker, which only the
+// webworker lib declares. That lib conflicts with the dom lib, so the scope is declared here
+interface DedicatedWorkerGlobalScope extends EventTarget {
+  postMessage(message: any): void;
+}
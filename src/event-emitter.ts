@@ -0,0 +1,96 @@
+export type Listener = (...args: any[]) => void;
+
+interface IRegisteredListener {
+  listener: Listener;
+  once: boolean;
+}
+
+/**
+ * The part of Node's EventEmitter that connections and recorders use, so that the package does not
+ * depend on the Node typings or on a polyfill of the events module. Like Node's, it throws an
+ * 'error' that has no listener
+ */
+export class EventEmitter {
+  private registered: { [event: string]: IRegisteredListener[] } = {};
+
+  public on(event: string, listener: Listener): this {
+    return this.add(event, listener, false);
+  }
+
+  public addListener(event: string, listener: Listener): this {
+    return this.add(event, listener, false);
+  }
+
+  public once(event: string, listener: Listener): this {
+    return this.add(event, listener, true);
+  }
+
+  /**
+   * Removes the latest registration of the listener, whether it was added with `on` or `once`
+   */
+  public off(event: string, listener: Listener): this {
+    const registered = this.registered[event] || [];
+    for (let i = registered.length - 1; i >= 0; i--) {
+      if (registered[i].listener === listener) {
+        registered.splice(i, 1);
+        break;
+      }
+    }
+    return this;
+  }
+
+  public removeListener(event: string, listener: Listener): this {
+    return this.off(event, listener);
+  }
+
+  /**
+   * Leave out the event to remove the listeners of every event
+   */
+  public removeAllListeners(event?: string): this {
+    if (event === undefined) {
+      this.registered = {};
+    } else {
+      delete this.registered[event];
+    }
+    return this;
+  }
+
+  /**
+   * Calls the listeners in the order they were added, and returns whether there were any
+   */
+  public emit(event: string, ...args: any[]): boolean {
+    const registered = this.registered[event] || [];
+    if (!registered.length) {
+      if (event === 'error') {
+        throw args[0] instanceof Error ? args[0] : new Error(`Unhandled error: ${args[0]}`);
+      }
+      return false;
+    }
+    // Listeners that are added or removed by a listener only take effect on the next emit
+    registered.slice().forEach((entry) => {
+      if (entry.once) {
+        const current = this.registered[event] || [];
+        const index = current.indexOf(entry);
+        if (index !== -1) {
+          current.splice(index, 1);
+        }
+      }
+      entry.listener.apply(this, args);
+    });
+    return true;
+  }
+
+  public listenerCount(event: string): number {
+    return (this.registered[event] || []).length;
+  }
+
+  public listeners(event: string): Listener[] {
+    return (this.registered[event] || []).map((entry) => entry.listener);
+  }
+
+  private add(event: string, listener: Listener, once: boolean): this {
+    this.registered[event] = this.registered[event] || [];
+    this.registered[event].push({ listener, once });
+    return this;
+  }
+}
@@ -0,0 +1,99 @@
+import * as lsProtocol from 'vscode-languageserver-protocol';
+
+// Not exported by vscode-languageserver-protocol
+type FileOperationFilter = lsProtocol.FileOperationRegistrationOptions['filters'][0];
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.+^$()|\\/]/g, '\\$&');
+}
+
+/**
+ * Converts the glob syntax of the LSP specification: `*`, `?`, `**`, `{a,b}` and `[a-z]` or `[!a-z]`
+ */
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  let groupDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      const isSegment = (i === 0 || glob[i - 1] === '/') && (i + 2 === glob.length || glob[i + 2] === '/');
+      if (isSegment && glob[i + 2] === '/') {
+        // `**/` also matches no directory at all
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let range = glob.slice(i + 1, end);
+      if (range[0] === '!') {
+        range = '^' + range.slice(1);
+      }
+      source += `[${range.replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else if (char === '{') {
+      groupDepth++;
+      source += '(?:';
+    } else if (char === '}' && groupDepth > 0) {
+      groupDepth--;
+      source += ')';
+    } else if (char === ',' && groupDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * The decoded path of a URI, like `/project/src/index.ts` for `file:///project/src/index.ts`
+ */
+function getPath(uri: string): string {
+  const path = uri.replace(/^[a-z][\w+.-]*:(\/\/[^/]*)?/i, '');
+  try {
+    return decodeURIComponent(path);
+  } catch (e) {
+    return path;
+  }
+}
+
+export function matchGlob(glob: string, path: string, ignoreCase = false): boolean {
+  return new RegExp(`^${globToRegExpSource(glob)}$`, ignoreCase ? 'i' : '').test(path);
+}
+
+/**
+ * Matches the URI of a file against a pattern of a file watcher. Relative patterns only match files
+ * inside of their base
+ */
+export function matchGlobPattern(pattern: lsProtocol.GlobPattern, uri: string): boolean {
+  if (typeof pattern === 'string') {
+    return matchGlob(pattern, getPath(uri));
+  }
+  const baseUri = typeof pattern.baseUri === 'string' ? pattern.baseUri : pattern.baseUri.uri;
+  const base = getPath(baseUri).replace(/\/$/, '') + '/';
+  const path = getPath(uri);
+  return path.indexOf(base) === 0 && matchGlob(pattern.pattern, path.slice(base.length));
+}
+
+/**
+ * Matches the URI of a file against a filter of a file operation. Whether the URI is a file or a folder
+ * is not known, so `matches` is not checked
+ */
+export function matchFileOperationFilter(filter: FileOperationFilter, uri: string): boolean {
+  if (filter.scheme && uri.indexOf(`${filter.scheme}:`) !== 0) {
+    return false;
+  }
+  const ignoreCase = !!(filter.pattern.options && filter.pattern.options.ignoreCase);
+  return matchGlob(filter.pattern.glob, getPath(uri), ignoreCase);
+}
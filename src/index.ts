@@ -1,4 +1,8 @@
 export * from './ws-connection';
+export * from './transports';
+export * from './server-profiles';
+export * from './message-recorder';
+export * from './command-registry';
 export { default as LspWsConnection } from './ws-connection';
 export { default as CodeMirrorAdapter } from './codemirror-adapter';
 export * from './types';
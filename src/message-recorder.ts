@@ -0,0 +1,56 @@
+import { Message } from 'vscode-jsonrpc';
+import { EventEmitter } from './event-emitter';
+
+export type MessageDirection = 'sent' | 'received';
+
+export interface IRecordedMessage {
+  /**
+   * Milliseconds since the epoch, like `Date.now()`
+   */
+  timestamp: number;
+  direction: MessageDirection;
+  message: Message;
+}
+
+/**
+ * Keeps every JSON-RPC message that is exchanged with the server, for a debug panel or a bug report.
+ * Emits 'message' with each recorded message as it arrives
+ */
+export class MessageRecorder extends EventEmitter {
+  private messages: IRecordedMessage[] = [];
+
+  /**
+   * Only the latest `maxMessages` are kept
+   */
+  constructor(private maxMessages = Infinity) {
+    super();
+  }
+
+  public record(direction: MessageDirection, message: Message) {
+    const recorded: IRecordedMessage = {
+      timestamp: Date.now(),
+      direction,
+      message,
+    };
+    this.messages.push(recorded);
+    if (this.messages.length > this.maxMessages) {
+      this.messages.splice(0, this.messages.length - this.maxMessages);
+    }
+    this.emit('message', recorded);
+  }
+
+  public getMessages(): IRecordedMessage[] {
+    return this.messages.slice();
+  }
+
+  public clear() {
+    this.messages = [];
+  }
+
+  /**
+   * The recorded messages as JSON, to be downloaded as a file
+   */
+  public serialize(): string {
+    return JSON.stringify(this.messages, null, 2);
+  }
+}
@@ -1,4 +1,9 @@
-import { Registration, ServerCapabilities, Unregistration } from 'vscode-languageserver-protocol';
+import {
+  Registration,
+  ServerCapabilities,
+  TextDocumentSyncOptions,
+  Unregistration,
+} from 'vscode-languageserver-protocol';
 
 interface IFlexibleServerCapabilities extends ServerCapabilities {
   [key: string]: any;
@@ -19,24 +24,53 @@ const ServerCapabilitiesProviders: IMethodServerCapabilityProviderDictionary = {
   'textDocument/documentHighlight' : 'documentHighlightProvider',
   'textDocument/documentSymbol' : 'documentSymbolProvider',
   'textDocument/workspaceSymbol' : 'workspaceSymbolProvider',
+  'workspace/symbol' : 'workspaceSymbolProvider',
   'textDocument/codeAction' : 'codeActionProvider',
   'textDocument/codeLens' : 'codeLensProvider',
   'textDocument/documentFormatting' : 'documentFormattingProvider',
   'textDocument/documentRangeFormatting' : 'documentRangeFormattingProvider',
   'textDocument/documentOnTypeFormatting' : 'documentOnTypeFormattingProvider',
+  'textDocument/formatting' : 'documentFormattingProvider',
+  'textDocument/rangeFormatting' : 'documentRangeFormattingProvider',
+  'textDocument/onTypeFormatting' : 'documentOnTypeFormattingProvider',
   'textDocument/rename' : 'renameProvider',
   'textDocument/documentLink' : 'documentLinkProvider',
   'textDocument/color' : 'colorProvider',
   'textDocument/foldingRange' : 'foldingRangeProvider',
   'textDocument/declaration' : 'declarationProvider',
   'textDocument/executeCommand' : 'executeCommandProvider',
+  'workspace/executeCommand' : 'executeCommandProvider',
+  'textDocument/diagnostic' : 'diagnosticProvider',
 };
 
+// Save notifications are registered as part of the text document sync options
+const TextDocumentSyncMethods: IMethodServerCapabilityProviderDictionary = {
+  'textDocument/willSave': 'willSave',
+  'textDocument/willSaveWaitUntil': 'willSaveWaitUntil',
+  'textDocument/didSave': 'save',
+};
+
+// Registrations that configure the client instead of announcing a server capability. The connection
+// keeps track of them itself
+const ClientRegistrationMethods = [
+  'workspace/didChangeWatchedFiles',
+  'workspace/didChangeWorkspaceFolders',
+];
+
+function getTextDocumentSyncOptions(serverCapabilities: ServerCapabilities): TextDocumentSyncOptions {
+  const sync = serverCapabilities.textDocumentSync;
+  if (typeof sync === 'number') {
+    return { openClose: true, change: sync };
+  }
+  return Object.assign({}, sync);
+}
+
 function registerServerCapability(
   serverCapabilities: ServerCapabilities, registration: Registration): ServerCapabilities {
   const serverCapabilitiesCopy = JSON.parse(JSON.stringify(serverCapabilities)) as IFlexibleServerCapabilities;
   const { method, registerOptions } = registration;
   const providerName = ServerCapabilitiesProviders[method];
+  const syncOptionName = TextDocumentSyncMethods[method];
 
   if (providerName) {
     if (!registerOptions) {
@@ -44,7 +78,11 @@ function registerServerCapability(
     } else {
       serverCapabilitiesCopy[providerName] = Object.assign({}, JSON.parse(JSON.stringify(registerOptions)));
     }
-  } else {
+  } else if (syncOptionName) {
+    const syncOptions = getTextDocumentSyncOptions(serverCapabilitiesCopy) as { [key: string]: any };
+    syncOptions[syncOptionName] = registerOptions ? JSON.parse(JSON.stringify(registerOptions)) : true;
+    serverCapabilitiesCopy.textDocumentSync = syncOptions;
+  } else if (ClientRegistrationMethods.indexOf(method) === -1) {
     throw new Error('Could not register server capability.');
   }
 
@@ -56,13 +94,21 @@ function unregisterServerCapability(
   const serverCapabilitiesCopy = JSON.parse(JSON.stringify(serverCapabilities)) as IFlexibleServerCapabilities;
   const { method } = unregistration;
   const providerName = ServerCapabilitiesProviders[method];
+  const syncOptionName = TextDocumentSyncMethods[method];
 
-  delete serverCapabilitiesCopy[providerName];
+  if (syncOptionName) {
+    const syncOptions = getTextDocumentSyncOptions(serverCapabilitiesCopy) as { [key: string]: any };
+    delete syncOptions[syncOptionName];
+    serverCapabilitiesCopy.textDocumentSync = syncOptions;
+  } else if (providerName) {
+    delete serverCapabilitiesCopy[providerName];
+  }
 
   return serverCapabilitiesCopy;
 }
 
 export {
+  getTextDocumentSyncOptions,
   registerServerCapability,
   unregisterServerCapability,
 };
@@ -0,0 +1,105 @@
+import { ILspOptions, IServerProfile } from './types';
+
+/**
+ * For servers without a profile of their own: no initialization options and no settings
+ */
+export const defaultServerProfile: IServerProfile = {};
+
+/**
+ * https://github.com/typescript-language-server/typescript-language-server
+ */
+export const typescriptServerProfile: IServerProfile = {
+  initializationOptions: (options: ILspOptions) => ({
+    disableAutomaticTypingAcquisition: true,
+    locale: options.locale || 'en',
+    preferences: {
+      displayPartsForJSDoc: true,
+      disableSuggestions: true,
+    },
+    tsserver: options.tsserver,
+  }),
+  settings: () => ({
+    implicitProjectConfiguration: {
+      allowJs: true,
+      jsx: 'preserve',
+      checkJs: false,
+      allowSyntheticDefaultImports: true,
+      target: 'esnext',
+      module: 'esnext',
+      moduleResolution: 'node',
+      experimentalDecorators: true,
+    },
+    diagnostics: {
+      ignoredCodes: [],
+    },
+  }),
+};
+
+/**
+ * vscode-css-language-server, which also handles SCSS and Less
+ */
+export const cssServerProfile: IServerProfile = {
+  initializationOptions: () => ({
+    provideFormatter: true,
+  }),
+  settings: () => ({
+    css: { validate: true },
+    scss: { validate: true },
+    less: { validate: true },
+  }),
+};
+
+/**
+ * vscode-html-language-server, including the CSS and JavaScript embedded in HTML
+ */
+export const htmlServerProfile: IServerProfile = {
+  initializationOptions: () => ({
+    provideFormatter: true,
+    embeddedLanguages: {
+      css: true,
+      javascript: true,
+    },
+  }),
+  settings: () => ({
+    html: {
+      validate: {
+        scripts: true,
+        styles: true,
+      },
+    },
+    css: { validate: true },
+    javascript: {
+      validate: { enable: true },
+    },
+  }),
+};
+
+/**
+ * vscode-json-language-server
+ */
+export const jsonServerProfile: IServerProfile = {
+  initializationOptions: () => ({
+    provideFormatter: true,
+  }),
+  settings: () => ({
+    json: {
+      validate: { enable: true },
+      schemas: [],
+    },
+  }),
+};
+
+/**
+ * https://github.com/microsoft/pyright
+ */
+export const pyrightServerProfile: IServerProfile = {
+  settings: () => ({
+    python: {
+      analysis: {
+        autoSearchPaths: true,
+        useLibraryCodeForTypes: true,
+        diagnosticMode: 'openFilesOnly',
+      },
+    },
+  }),
+};
@@ -0,0 +1,52 @@
+import cloneDeep from 'lodash-es/cloneDeep';
+import get from 'lodash-es/get';
+import mergeWith from 'lodash-es/mergeWith';
+import set from 'lodash-es/set';
+
+function mergeSettings(target: any, source: any) {
+  // Settings that are lists replace each other instead of being merged item by item
+  return mergeWith(target, source, (targetValue: any, sourceValue: any) => {
+    return Array.isArray(sourceValue) ? cloneDeep(sourceValue) : undefined;
+  });
+}
+
+// A scope holds the resource itself and everything in its folder, but not its siblings that share a prefix
+function isInScope(uri: string, scope: string) {
+  const folder = scope.charAt(scope.length - 1) === '/' ? scope : scope + '/';
+  return uri === scope || uri.indexOf(folder) === 0;
+}
+
+/**
+ * Settings by section, like `python.analysis`. Settings for a scope URI apply to every resource
+ * inside of it, and override the global settings
+ */
+export class SettingsStore {
+  private global: any;
+  private scoped: { [scopeUri: string]: any } = {};
+
+  constructor(settings: any = {}) {
+    this.global = cloneDeep(settings);
+  }
+
+  /**
+   * Leave out the section to get every setting
+   */
+  public get(section?: string, scopeUri?: string): any {
+    const scopes = Object.keys(this.scoped)
+      .filter((scope) => !!scopeUri && isInScope(scopeUri, scope))
+      .sort((a, b) => a.length - b.length);
+    const settings = scopes.reduce((merged, scope) => {
+      return mergeSettings(merged, this.scoped[scope]);
+    }, mergeSettings({}, this.global));
+    return section ? get(settings, section) : settings;
+  }
+
+  public set(section: string, value: any, scopeUri?: string) {
+    if (scopeUri) {
+      this.scoped[scopeUri] = this.scoped[scopeUri] || {};
+      set(this.scoped[scopeUri], section, cloneDeep(value));
+    } else {
+      set(this.global, section, cloneDeep(value));
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import {
+  DataCallback,
+  Disposable,
+  Emitter,
+  Message,
+  MessageReader,
+  MessageWriter,
+  PartialMessageInfo,
+} from 'vscode-jsonrpc';
+import { BrowserMessageReader, BrowserMessageWriter } from 'vscode-jsonrpc/browser';
+import { MessageRecorder } from './message-recorder';
+
+/**
+ * A channel that JSON-RPC messages can be exchanged over with a language server
+ */
+export interface IMessageTransport {
+  reader: MessageReader;
+  writer: MessageWriter;
+  /**
+   * Calls back once messages can be written. Transports that are usable right away call back immediately
+   */
+  onReady(callback: () => void): void;
+  /**
+   * Closes the underlying channel
+   */
+  dispose(): void;
+}
+
+/**
+ * Creates a new transport for every connection attempt, which is what allows reconnecting
+ */
+export type MessageTransportFactory = () => IMessageTransport;
+
+export function isMessageTransport(value: any): value is IMessageTransport {
+  return !!value && MessageReader.is(value.reader) && MessageWriter.is(value.writer);
+}
+
+/**
+ * The reading end of a channel, together with what the channel calls when a message arrives
+ */
+interface IMessageQueue {
+  reader: MessageReader;
+  deliver(message: Message): void;
+  fail(error: Error): void;
+  close(): void;
+}
+
+function toError(value: any): Error {
+  if (value instanceof Error) {
+    return value;
+  }
+  return new Error(value && typeof value.message === 'string' ? value.message : 'Unknown error');
+}
+
+/**
+ * Buffers the messages that arrive before the connection listens. vscode-jsonrpc's AbstractMessageReader
+ * is a native class, which the ES5 output of this library cannot call as a super constructor, so the
+ * reader is built from emitters instead
+ */
+function createMessageQueue(): IMessageQueue {
+  const errorEmitter = new Emitter<Error>();
+  const closeEmitter = new Emitter<void>();
+  const partialMessageEmitter = new Emitter<PartialMessageInfo>();
+  const buffer: Message[] = [];
+  let callback: DataCallback | null = null;
+  let isClosed = false;
+
+  return {
+    reader: {
+      onError: errorEmitter.event,
+      onClose: closeEmitter.event,
+      onPartialMessage: partialMessageEmitter.event,
+      listen: (listener: DataCallback) => {
+        callback = listener;
+        buffer.splice(0).forEach((message) => listener(message));
+        return Disposable.create(() => {
+          callback = null;
+        });
+      },
+      dispose: () => {
+        errorEmitter.dispose();
+        closeEmitter.dispose();
+        partialMessageEmitter.dispose();
+      },
+    },
+    deliver: (message: Message) => {
+      if (isClosed) {
+        return;
+      }
+      if (callback) {
+        callback(message);
+      } else {
+        buffer.push(message);
+      }
+    },
+    fail: (error: Error) => errorEmitter.fire(error),
+    close: () => {
+      if (!isClosed) {
+        isClosed = true;
+        closeEmitter.fire(undefined);
+      }
+    },
+  };
+}
+
+/**
+ * A writer that hands every message to `send`, which rejects when the message could not be sent
+ */
+function createMessageWriter(send: (message: Message) => Promise<void>): MessageWriter {
+  const errorEmitter = new Emitter<[Error, Message | undefined, number | undefined]>();
+  const closeEmitter = new Emitter<void>();
+  let errorCount = 0;
+
+  return {
+    onError: errorEmitter.event,
+    onClose: closeEmitter.event,
+    write: (message: Message) => send(message).catch((e) => {
+      errorCount++;
+      errorEmitter.fire([toError(e), message, errorCount]);
+      throw e;
+    }),
+    end: () => {},
+    dispose: () => {
+      errorEmitter.dispose();
+      closeEmitter.dispose();
+    },
+  };
+}
+
+/**
+ * Speaks LSP over a web socket, one JSON-RPC message per frame
+ */
+export function createWebSocketTransport(socket: WebSocket): IMessageTransport {
+  const incoming = createMessageQueue();
+  socket.addEventListener('message', (event: MessageEvent) => {
+    let message: Message;
+    try {
+      message = JSON.parse(event.data);
+    } catch (e) {
+      incoming.fail(toError(e));
+      return;
+    }
+    incoming.deliver(message);
+  });
+  socket.addEventListener('error', () => {
+    incoming.fail(new Error('The web socket reported an error'));
+  });
+  socket.addEventListener('close', () => {
+    incoming.close();
+  });
+
+  return {
+    reader: incoming.reader,
+    writer: createMessageWriter((message: Message) => new Promise<void>((resolve) => {
+      socket.send(JSON.stringify(message));
+      resolve();
+    })),
+    onReady: (callback: () => void) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        callback();
+      } else {
+        socket.addEventListener('open', () => callback());
+      }
+    },
+    dispose: () => socket.close(),
+  };
+}
+
+/**
+ * Speaks LSP with a language server running in a Web Worker, or on the other end of a MessageChannel
+ */
+export function createWorkerTransport(port: Worker | MessagePort): IMessageTransport {
+  return {
+    reader: new BrowserMessageReader(port),
+    writer: new BrowserMessageWriter(port),
+    onReady: (callback: () => void) => callback(),
+    dispose: () => {
+      if (port instanceof MessagePort) {
+        port.close();
+      } else {
+        port.terminate();
+      }
+    },
+  };
+}
+
+function deliverLater(target: IMessageQueue) {
+  return (message: Message) => {
+    // Copy the message like a real channel would, and deliver it on a later tick so neither end
+    // handles a message while it is still sending one
+    const copy = JSON.parse(JSON.stringify(message));
+    return Promise.resolve().then(() => target.deliver(copy));
+  };
+}
+
+/**
+ * Creates both ends of an in-memory channel, for language servers that run in the same page.
+ * The first transport is for the client, the second one for the server
+ */
+export function createInMemoryTransportPair(): [IMessageTransport, IMessageTransport] {
+  const toClient = createMessageQueue();
+  const toServer = createMessageQueue();
+  const dispose = () => {
+    toClient.close();
+    toServer.close();
+  };
+
+  return [{
+    reader: toClient.reader,
+    writer: createMessageWriter(deliverLater(toServer)),
+    onReady: (callback: () => void) => callback(),
+    dispose,
+  }, {
+    reader: toServer.reader,
+    writer: createMessageWriter(deliverLater(toClient)),
+    onReady: (callback: () => void) => callback(),
+    dispose,
+  }];
+}
+
+/**
+ * Passes every message that goes through the transport to the recorder
+ */
+export function createRecordingTransport(transport: IMessageTransport, recorder: MessageRecorder): IMessageTransport {
+  const { reader, writer } = transport;
+  return {
+    reader: {
+      onError: reader.onError,
+      onClose: reader.onClose,
+      onPartialMessage: reader.onPartialMessage,
+      listen: (callback: DataCallback) => reader.listen((message) => {
+        recorder.record('received', message);
+        callback(message);
+      }),
+      dispose: () => reader.dispose(),
+    },
+    writer: {
+      onError: writer.onError,
+      onClose: writer.onClose,
+      write: (message: Message) => {
+        recorder.record('sent', message);
+        return writer.write(message);
+      },
+      end: () => writer.end(),
+      dispose: () => writer.dispose(),
+    },
+    onReady: (callback: () => void) => transport.onReady(callback),
+    dispose: () => transport.dispose(),
+  };
+}
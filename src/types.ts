@@ -1,5 +1,6 @@
 import * as lsProtocol from 'vscode-languageserver-protocol';
 import { Location, LocationLink } from 'vscode-languageserver-protocol';
+import { MessageRecorder } from './message-recorder';
 
 export interface IPosition {
   line: number;
@@ -19,18 +20,56 @@ export interface ITokenInfo {
 }
 
 type ConnectionEvent = 'completion' | 'completionResolved' | 'hover' | 'diagnostic' | 'highlight' |
-'signature' | 'goTo' | 'error' | 'logging';
+'signature' | 'goTo' | 'error' | 'logging' | 'connectionState' | 'progress' | 'showMessageRequest' |
+'serverLog' | 'trace' | 'telemetry' | 'applyEdit' | 'foldingRanges';
+
+/**
+ * 'disconnected' is emitted whenever the socket goes away, followed by 'reconnecting' when
+ * another attempt has been scheduled
+ */
+export type ConnectionState = 'connected' | 'disconnected' | 'reconnecting';
+
+/**
+ * Progress the server reports on its own, like loading a project
+ */
+export type WorkDoneProgress =
+  lsProtocol.WorkDoneProgressBegin | lsProtocol.WorkDoneProgressReport | lsProtocol.WorkDoneProgressEnd;
+
+/**
+ * Answers a `window/showMessageRequest` with the action the user chose, or null when they dismissed it.
+ * Only the first answer is sent to the server
+ */
+export type MessageRequestResponder = (action: lsProtocol.MessageActionItem | null) => void;
+
+/**
+ * Answers a `workspace/applyEdit` with whether the edit was applied
+ */
+export type ApplyEditResponder = (result: lsProtocol.ApplyWorkspaceEditResult) => void;
 
 export interface ILspConnection {
-  on(event: 'completion', callback: (items: lsProtocol.CompletionItem[]) => void): void;
+  on(event: 'completion', callback: (items: lsProtocol.CompletionItem[], location: IPosition) => void): void;
   on(event: 'completionResolved', callback: (item: lsProtocol.CompletionItem) => void): void;
-  on(event: 'hover', callback: (hover: lsProtocol.Hover) => void): void;
+  on(event: 'hover', callback: (hover: lsProtocol.Hover, location: IPosition) => void): void;
   on(event: 'diagnostic', callback: (diagnostic: lsProtocol.PublishDiagnosticsParams) => void): void;
   on(event: 'highlight', callback: (highlights: lsProtocol.DocumentHighlight[]) => void): void;
-  on(event: 'signature', callback: (signatures: lsProtocol.SignatureHelp) => void): void;
+  on(event: 'signature', callback: (signatures: lsProtocol.SignatureHelp, location: IPosition) => void): void;
   on(event: 'goTo', callback: (location: Location | Location[] | LocationLink[] | null) => void): void;
   on(event: 'error', callback: (error: any) => void): void;
   on(event: 'logging', callback: (log: any) => void): void;
+  on(event: 'connectionState', callback: (state: ConnectionState) => void): void;
+  on(event: 'progress', callback: (progress: WorkDoneProgress, token: lsProtocol.ProgressToken) => void): void;
+  on(
+    event: 'showMessageRequest',
+    callback: (params: lsProtocol.ShowMessageRequestParams, respond: MessageRequestResponder) => void,
+  ): void;
+  on(event: 'serverLog', callback: (params: lsProtocol.LogMessageParams) => void): void;
+  on(event: 'trace', callback: (params: lsProtocol.LogTraceParams) => void): void;
+  on(event: 'telemetry', callback: (data: any) => void): void;
+  on(
+    event: 'applyEdit',
+    callback: (params: lsProtocol.ApplyWorkspaceEditParams, respond: ApplyEditResponder) => void,
+  ): void;
+  on(event: 'foldingRanges', callback: (ranges: lsProtocol.FoldingRange[]) => void): void;
 
   off(event: ConnectionEvent, listener: (arg: any) => void): void;
 
@@ -38,20 +77,93 @@ export interface ILspConnection {
    * Close the connection
    */
   close(): void;
+  /**
+   * Close the connection gracefully, telling the server about every open document and asking it to
+   * shut down first
+   */
+  dispose(): Promise<void>;
+  /**
+   * Tell the server that the document was closed, without closing the connection
+   */
+  closeDocument(): void;
+  /**
+   * Changes how much the server reports with `$/logTrace`
+   */
+  setTrace(value: lsProtocol.TraceValues): void;
 
   // This should support every method from https://microsoft.github.io/language-server-protocol/specification
+  // Requests resolve with the same result that is emitted as an event, or with null when the server
+  // does not support them or the response was superseded
   /**
    * The initialize request tells the server which options the client supports
    */
   sendInitialize(): void;
   /**
-   * Sends the full text of the document to the server
+   * Records an edit made to the document since the last `sendChange`
+   */
+  queueChange(change: lsProtocol.TextDocumentContentChangeEvent): void;
+  /**
+   * Sends the queued edits to the server, or the full text of the document when the server
+   * does not support incremental synchronization
    */
   sendChange(): void;
   /**
-   * Requests additional information for a particular character
+   * Whether there are edits that `sendChange` has not sent yet
+   */
+  hasQueuedChanges(): boolean;
+  /**
+   * Tells the server that the document is about to be saved. Resolves with the edits the server
+   * wants applied before saving, or null when it has none
+   */
+  notifySave(reason?: lsProtocol.TextDocumentSaveReason): Promise<lsProtocol.TextEdit[] | null>;
+  /**
+   * Tells the server that the document was saved
+   */
+  notifyDidSave(text?: string): void;
+  /**
+   * Requests the diagnostics of the document from servers that support pull diagnostics. This happens
+   * after every change, and the diagnostics are emitted like the ones the server publishes
+   */
+  getDiagnostics(): Promise<lsProtocol.Diagnostic[] | null>;
+  /**
+   * Requests the ranges of the document that can be folded. This happens after every change while
+   * anyone listens for 'foldingRanges', which is where the ranges are emitted
+   */
+  getFoldingRanges(): Promise<lsProtocol.FoldingRange[] | null>;
+  /**
+   * The folders of the workspace, which start out as the `workspaceFolders` option
+   */
+  getWorkspaceFolders(): lsProtocol.WorkspaceFolder[];
+  /**
+   * Adds a folder to the workspace and tells the server with `workspace/didChangeWorkspaceFolders`
+   */
+  addWorkspaceFolder(folder: lsProtocol.WorkspaceFolder): void;
+  /**
+   * Removes the folder with the URI from the workspace and tells the server
+   */
+  removeWorkspaceFolder(uri: string): void;
+  /**
+   * Tells the server about files that changed outside of the editors. Only the changes that match
+   * the file watchers the server registered are sent
+   */
+  notifyWatchedFilesChanged(changes: lsProtocol.FileEvent[]): void;
+  /**
+   * File operations tell the server about files that the host creates, renames or deletes. Only the
+   * files that match the server's filters are sent. The `will` requests resolve with the edits the
+   * server wants made before the operation, or with null
+   */
+  willCreateFiles(uris: string[]): Promise<lsProtocol.WorkspaceEdit | null>;
+  didCreateFiles(uris: string[]): void;
+  willRenameFiles(files: lsProtocol.FileRename[]): Promise<lsProtocol.WorkspaceEdit | null>;
+  didRenameFiles(files: lsProtocol.FileRename[]): void;
+  willDeleteFiles(uris: string[]): Promise<lsProtocol.WorkspaceEdit | null>;
+  didDeleteFiles(uris: string[]): void;
+  /**
+   * Requests additional information for a particular character. Hover, completion and signature
+   * requests cancel the previous request of the same kind, and responses for an older version of
+   * the document are dropped
    */
-  getHoverTooltip(position: IPosition): void;
+  getHoverTooltip(position: IPosition): Promise<lsProtocol.Hover | null>;
   /**
    * Request possible completions from the server
    */
@@ -60,67 +172,119 @@ export interface ILspConnection {
    token: ICompletionTokenInfo,
    triggerCharacter?: string,
    triggerKind?: lsProtocol.CompletionTriggerKind,
-  ): void;
+  ): Promise<lsProtocol.CompletionItem[] | null>;
   /**
    * If the server returns incomplete information for completion items, more information can be requested
    */
-  getDetailedCompletion(item: lsProtocol.CompletionItem): void;
+  getDetailedCompletion(item: lsProtocol.CompletionItem): Promise<lsProtocol.CompletionItem | null>;
   /**
    * Request possible signatures for the current method
    */
-  getSignatureHelp(position: IPosition): void;
+  getSignatureHelp(position: IPosition): Promise<lsProtocol.SignatureHelp | null>;
   /**
    * Request all matching symbols in the document scope
    */
-  getDocumentHighlights(position: IPosition): void;
+  getDocumentHighlights(position: IPosition): Promise<lsProtocol.DocumentHighlight[] | null>;
   /**
    * Request a link to the definition of the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-  getDefinition(position: IPosition): void;
+  getDefinition(position: IPosition): Promise<Location | Location[] | LocationLink[] | null>;
   /**
    * Request a link to the type definition of the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-  getTypeDefinition(position: IPosition): void;
+  getTypeDefinition(position: IPosition): Promise<Location | Location[] | LocationLink[] | null>;
   /**
    * Request a link to the implementation of the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-  getImplementation(position: IPosition): void;
+  getImplementation(position: IPosition): Promise<Location | Location[] | LocationLink[] | null>;
   /**
    * Request a link to all references to the current symbol. The results will not be displayed
-   * unless they are within the same file URI
+   * unless they are within the same file URI. Servers that stream their results pass each batch
+   * to `onPartialResult`, and the promise resolves with all of them
+   */
+  getReferences(position: IPosition, onPartialResult?: (references: Location[]) => void): Promise<Location[] | null>;
+  /**
+   * Request the symbols of the document. Partial results are streamed like for `getReferences`
+   */
+  getDocumentSymbols(
+    onPartialResult?: (symbols: lsProtocol.DocumentSymbol[] | lsProtocol.SymbolInformation[]) => void,
+  ): Promise<lsProtocol.DocumentSymbol[] | lsProtocol.SymbolInformation[] | null>;
+  /**
+   * Request the symbols in the whole workspace that match the query. Partial results are streamed
+   * like for `getReferences`
+   */
+  getWorkspaceSymbols(
+    query: string,
+    onPartialResult?: (symbols: lsProtocol.SymbolInformation[] | lsProtocol.WorkspaceSymbol[]) => void,
+  ): Promise<lsProtocol.SymbolInformation[] | lsProtocol.WorkspaceSymbol[] | null>;
+  /**
+   * Request the code actions for a range of the document. When `context.only` is set, actions of
+   * other kinds are left out, even if the server returns them
+   */
+  getCodeActions(
+    range: lsProtocol.Range,
+    context: lsProtocol.CodeActionContext,
+  ): Promise<Array<lsProtocol.Command | lsProtocol.CodeAction> | null>;
+  /**
+   * If the server leaves the edit out of a code action, it can be requested separately
+   */
+  resolveCodeAction(action: lsProtocol.CodeAction): Promise<lsProtocol.CodeAction | null>;
+  /**
+   * Asks whether the symbol at the position can be renamed, and which range of it. Resolves with
+   * `{ defaultBehavior: true }` when the server does not check, and null when renaming is not possible
+   */
+  prepareRename(location: IPosition): Promise<lsProtocol.PrepareRenameResult | null>;
+  /**
+   * Request the edit that renames the symbol at the position
+   */
+  rename(location: IPosition, newName: string): Promise<lsProtocol.WorkspaceEdit | null>;
+  /**
+   * Request the edits that format the whole document
+   */
+  formatDocument(options: lsProtocol.FormattingOptions): Promise<lsProtocol.TextEdit[] | null>;
+  /**
+   * Request the edits that format a range of the document
+   */
+  formatRange(range: lsProtocol.Range, options: lsProtocol.FormattingOptions): Promise<lsProtocol.TextEdit[] | null>;
+  /**
+   * Request the edits that format the code around the position after a character was typed. Resolves
+   * with null for characters that are not in `getFormatOnTypeCharacters`
    */
-  getReferences(position: IPosition): void;
+  formatOnType(
+    location: IPosition,
+    ch: string,
+    options: lsProtocol.FormattingOptions,
+  ): Promise<lsProtocol.TextEdit[] | null>;
+  /**
+   * Runs one of the commands the server offers in `executeCommandProvider`
+   */
+  executeCommand(command: string, args?: any[]): Promise<any>;
 
   // TODO:
   // Workspaces: Not in scope
-  // Text Synchronization:
-  // willSave
-  // willSaveWaitUntil
-  // didSave
-  // didClose
   // Language features:
-  // getDocumentSymbols
-  // codeAction
   // codeLens
   // codeLensResolve
   // documentLink
   // documentLinkResolve
   // documentColor
   // colorPresentation
-  // formatting
-  // rangeFormatting
-  // onTypeFormatting
-  // rename
-  // prepareRename
-  // foldingRange
 
   getLanguageCompletionCharacters(): string[];
   getLanguageSignatureCharacters(): string[];
+  /**
+   * The characters that trigger format on type, `firstTriggerCharacter` and `moreTriggerCharacter`
+   */
+  getFormatOnTypeCharacters(): string[];
 
   getDocumentUri(): string;
+  /**
+   * The version of the document that the server has seen last
+   */
+  getDocumentVersion(): number;
 
   /**
    * Does the server support go to definition?
@@ -138,6 +302,30 @@ export interface ILspConnection {
    * Does the server support find all references?
    */
   isReferencesSupported(): boolean;
+  /**
+   * Does the server support code actions?
+   */
+  isCodeActionSupported(): boolean;
+  /**
+   * Does the server support formatting the whole document?
+   */
+  isDocumentFormattingSupported(): boolean;
+  /**
+   * Does the server support formatting a range of the document?
+   */
+  isRangeFormattingSupported(): boolean;
+  /**
+   * Does the server support folding ranges?
+   */
+  isFoldingRangeSupported(): boolean;
+  /**
+   * Does the server support renaming symbols?
+   */
+  isRenameSupported(): boolean;
+  /**
+   * Does the server offer the command?
+   */
+  isCommandSupported(command: string): boolean;
 }
 
 /**
@@ -147,6 +335,19 @@ export interface ICodeActionsOnSaveOptions {
   [kind: string]: boolean;
 }
 
+export interface IContextMenuItem {
+  label: string;
+  /**
+   * Missing for submenus and disabled items
+   */
+  action?: () => void;
+  children?: IContextMenuItem[];
+  /**
+   * Why the item cannot be used, like the `disabled.reason` of a code action
+   */
+  disabledReason?: string;
+}
+
 export interface ITextEditorOptions {
   /**
    * Enable the suggestion box to pop-up on trigger characters.
@@ -188,11 +389,13 @@ export interface ITextEditorOptions {
    */
   codeActionsOnSave?: ICodeActionsOnSaveOptions;
   /**
-   * Timeout for running code actions on save.
+   * Timeout (in ms) for running code actions on save.
+   * Defaults to 750ms
    */
   codeActionsOnSaveTimeout?: number;
   /**
-   * Enable code folding
+   * Enable code folding with CodeMirror's fold addons, in editors whose gutters include
+   * 'CodeMirror-foldgutter'. The editor's own fold options are replaced while it is enabled.
    * Defaults to true.
    */
   folding?: boolean;
@@ -225,7 +428,21 @@ export interface ITextEditorOptions {
     comments: boolean;
     strings: boolean;
   };
-  contextMenuProvider?: (ev: MouseEvent, buttons: {label: String, action: () => void }[]) => any;
+  /**
+   * Show the context menu in your own UI. The "Refactor…" item has the refactorings of the selection
+   * as children, grouped by kind
+   */
+  contextMenuProvider?: (ev: MouseEvent, buttons: IContextMenuItem[]) => any;
+  /**
+   * Show prompts from the server, like "Install missing typings?", in your own UI instead of the
+   * notification in the editor. Call `respond` with the chosen action, or null when dismissed
+   */
+  messageRequestProvider?: (params: lsProtocol.ShowMessageRequestParams, respond: MessageRequestResponder) => any;
+  /**
+   * Applies the parts of a workspace edit that are not for this editor's document, like edits to other
+   * files or creating and renaming files. Resolve with false when they could not be applied
+   */
+  workspaceEditProvider?: (edit: lsProtocol.WorkspaceEdit) => boolean | Promise<boolean>;
   /**
    * Quick suggestions show delay (in ms)
    * Defaults to 200 (ms)
@@ -275,6 +492,16 @@ export interface ITextEditorOptions {
    * Defaults to true
    */
   enableHoverInfo?: boolean;
+  /**
+   * Show the progress the server reports, like loading a project, in the corner of the editor
+   * Defaults to false
+   */
+  enableProgressIndicator?: boolean;
+  /**
+   * Show a lightbulb in the gutter on the line of the cursor when the server has code actions for it
+   * Defaults to true
+   */
+  lightbulb?: boolean;
 }
 
 type TSserverOptions = {
@@ -285,14 +512,123 @@ type TSserverOptions = {
   useSyntaxServer?: string
 }
 
+export interface IReconnectOptions {
+  /**
+   * Give up after this many failed attempts in a row.
+   * Defaults to Infinity
+   */
+  maxAttempts?: number;
+  /**
+   * Delay (in ms) before the first attempt.
+   * Defaults to 1000ms
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound (in ms) for the delay between attempts.
+   * Defaults to 30000ms
+   */
+  maxDelay?: number;
+  /**
+   * Factor the delay grows by after each failed attempt.
+   * Defaults to 2
+   */
+  multiplier?: number;
+}
+
+/**
+ * Creates a new socket for every connection attempt, which is what allows reconnecting
+ */
+export type WebSocketFactory = () => WebSocket;
+
+export interface IDocumentOptions {
+  documentUri: string;
+  documentText: (() => string);
+  /**
+   * Defaults to the languageId of the connection the document is opened on
+   */
+  languageId?: string;
+}
+
+/**
+ * Everything about the initialization handshake that depends on the language server
+ */
+export interface IServerProfile {
+  /**
+   * Sent as `initializationOptions` with the initialize request
+   */
+  initializationOptions?: (options: ILspOptions) => any;
+  /**
+   * The initial settings. They are sent with `workspace/didChangeConfiguration` once the server is
+   * initialized, and `workspace/configuration` requests are answered from them.
+   * Defaults to no settings
+   */
+  settings?: (options: ILspOptions) => any;
+  /**
+   * Merged over the client capabilities that are sent with the initialize request
+   */
+  capabilities?: lsProtocol.ClientCapabilities;
+}
+
 export interface ILspOptions {
   serverUri: string;
   languageId: string;
-  documentUri: string;
-  documentText: (() => string);
+  /**
+   * The document that is opened together with the connection. Leave it out when every
+   * document is opened with `openDocument`
+   */
+  documentUri?: string;
+  documentText?: (() => string);
   rootUri: string;
+  /**
+   * The folders of a workspace with several roots, like the packages of a monorepo
+   */
+  workspaceFolders?: lsProtocol.WorkspaceFolder[];
   locale?: string;
-  tsserver: TSserverOptions
+  /**
+   * Options for typescript-language-server. Connections that set them and no profile use the
+   * typescript-language-server profile
+   */
+  tsserver?: TSserverOptions;
+  /**
+   * What to send the server during initialization. Defaults to a language-neutral profile
+   */
+  profile?: IServerProfile;
+  /**
+   * Reconnect when the socket or transport drops. Only used when connecting with a factory
+   */
+  reconnect?: IReconnectOptions;
+  /**
+   * Time (in ms) that `dispose` waits for the server to answer the shutdown request.
+   * Defaults to 1000ms
+   */
+  shutdownTimeout?: number;
+  /**
+   * Sent with the initialize request, and changed later with `setTrace`. Defaults to 'off'
+   */
+  trace?: lsProtocol.TraceValues;
+  /**
+   * Records every message that is exchanged with the server
+   */
+  recorder?: MessageRecorder;
+  /**
+   * Lets the server list and read files that are not open, for example to resolve imports
+   */
+  virtualFileSystem?: IVirtualFileSystem;
+}
+
+/**
+ * Project files that live in the browser instead of on the server's disk. Servers list and read them
+ * with `workspace/xfiles` and `textDocument/xcontent`
+ */
+export interface IVirtualFileSystem {
+  /**
+   * URIs of the files inside of `base`, or of every file when it is left out
+   */
+  listFiles(base?: string): string[] | Promise<string[]>;
+  /**
+   * Resolves with null when the file does not exist
+   */
+  readFile(uri: string): string | null | Promise<string | null>;
 }
 
 /**
@@ -303,7 +639,7 @@ export abstract class IEditorAdapter<T> {
   constructor(connection: ILspConnection, options: ITextEditorOptions, editor: T) {}
 
   /**
-   * Removes the adapter from the editor and closes the connection
+   * Removes the adapter from the editor and closes its document
    */
   public abstract remove(): void;
 }
@@ -317,6 +653,7 @@ export function getFilledDefaults(options: ITextEditorOptions): ITextEditorOptio
     selectionHighlight: true,
     occurrencesHighlight: true,
     codeLens: true,
+    codeActionsOnSaveTimeout: 750,
     folding: true,
     foldingStrategy: 'auto',
     showFoldingControls: 'mouseover',
@@ -333,9 +670,29 @@ export function getFilledDefaults(options: ITextEditorOptions): ITextEditorOptio
     enableDiagnostics: true,
     enableSignatures: true,
     enableHoverInfo: true,
+    enableProgressIndicator: false,
+    lightbulb: true,
   }, options);
 }
 
+/**
+ * What `CodeMirrorAdapter.runSaveParticipants` did
+ */
+export interface ISaveParticipantsResult {
+  /**
+   * Titles of the code actions whose edits were applied, in the order they were applied
+   */
+  applied: string[];
+  /**
+   * Code action kinds that did not finish within codeActionsOnSaveTimeout
+   */
+  timedOut: string[];
+  /**
+   * Code action kinds that stopped because a request to the server failed
+   */
+  failed: string[];
+}
+
 export type TooltipData = {
   hasData: boolean;
   x: number;
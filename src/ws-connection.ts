@@ -1,10 +1,40 @@
-import * as rpc from '@sourcegraph/vscode-ws-jsonrpc';
-import { ConsoleLogger } from '@sourcegraph/vscode-ws-jsonrpc';
-import * as events from 'events';
+import merge from 'lodash-es/merge';
+import {
+  CancellationToken,
+  CancellationTokenSource,
+  createMessageConnection,
+  Logger,
+  MessageConnection,
+  ProgressType,
+} from 'vscode-jsonrpc';
 import * as lsProtocol from 'vscode-languageserver-protocol';
-import { LocationLink, ServerCapabilities } from 'vscode-languageserver-protocol';
-import { registerServerCapability, unregisterServerCapability } from './server-capability-registration';
-import { ILspConnection, ILspOptions, IPosition, ITokenInfo, ICompletionTokenInfo } from './types';
+import { Location, LocationLink, ServerCapabilities } from 'vscode-languageserver-protocol';
+import { EventEmitter } from './event-emitter';
+import { matchFileOperationFilter, matchGlobPattern } from './file-patterns';
+import {
+  getTextDocumentSyncOptions,
+  registerServerCapability,
+  unregisterServerCapability,
+} from './server-capability-registration';
+import { defaultServerProfile, typescriptServerProfile } from './server-profiles';
+import { SettingsStore } from './settings-store';
+import {
+  createRecordingTransport,
+  createWebSocketTransport,
+  IMessageTransport,
+  isMessageTransport,
+  MessageTransportFactory,
+} from './transports';
+import {
+  ICompletionTokenInfo,
+  IDocumentOptions,
+  ILspConnection,
+  ILspOptions,
+  IPosition,
+  ITokenInfo,
+  IVirtualFileSystem,
+  WebSocketFactory,
+} from './types';
 
 interface IFilesServerClientCapabilities {
   /* ... all fields from the base ClientCapabilities ... */
@@ -20,243 +50,755 @@ interface IFilesServerClientCapabilities {
 }
 type ExtendedClientCapabilities = lsProtocol.ClientCapabilities & IFilesServerClientCapabilities;
 
-class LspWsConnection extends events.EventEmitter implements ILspConnection {
+// The kinds of change that a file watcher can ask for, by the type of a file event
+const WatchKinds: { [type: number]: number } = {
+  [lsProtocol.FileChangeType.Created]: lsProtocol.WatchKind.Create,
+  [lsProtocol.FileChangeType.Changed]: lsProtocol.WatchKind.Change,
+  [lsProtocol.FileChangeType.Deleted]: lsProtocol.WatchKind.Delete,
+};
+
+interface IFilesParams {
+  /**
+   * Only list the files inside of this URI
+   */
+  base?: string;
+}
+
+interface IContentParams {
+  textDocument: lsProtocol.TextDocumentIdentifier;
+}
+
+/**
+ * A workspace edit divided into the changes of one document and everything else
+ */
+interface IDividedWorkspaceEdit {
+  own: lsProtocol.WorkspaceEdit | null;
+  rest: lsProtocol.WorkspaceEdit | null;
+}
+
+/**
+ * Like the server, this prefers `documentChanges` over `changes`. File operations are never part of
+ * the document's changes
+ */
+function divideWorkspaceEdit(edit: lsProtocol.WorkspaceEdit, uri: string): IDividedWorkspaceEdit {
+  const own: lsProtocol.WorkspaceEdit = {};
+  const rest: lsProtocol.WorkspaceEdit = {};
+  if (edit.documentChanges) {
+    edit.documentChanges.forEach((change) => {
+      const target = lsProtocol.TextDocumentEdit.is(change) && change.textDocument.uri === uri ? own : rest;
+      target.documentChanges = (target.documentChanges || []).concat([change]);
+    });
+  } else if (edit.changes) {
+    Object.keys(edit.changes).forEach((changedUri) => {
+      const target = changedUri === uri ? own : rest;
+      target.changes = Object.assign({}, target.changes, { [changedUri]: edit.changes[changedUri] });
+    });
+  }
+
+  const withAnnotations = (divided: lsProtocol.WorkspaceEdit) => {
+    if (!divided.documentChanges && !divided.changes) {
+      return null;
+    }
+    if (edit.changeAnnotations) {
+      divided.changeAnnotations = edit.changeAnnotations;
+    }
+    return divided;
+  };
+  return { own: withAnnotations(own), rest: withAnnotations(rest) };
+}
+
+class LspWsConnection extends EventEmitter implements ILspConnection {
   public isConnected = false;
   private isInitialized = false;
-  private socket: WebSocket;
+  private isClosing = false;
+  private transport: IMessageTransport;
+  private transportFactory: MessageTransportFactory | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
   private documentInfo: ILspOptions;
   private serverCapabilities: lsProtocol.ServerCapabilities;
+  private registrations: { [id: string]: lsProtocol.Registration } = {};
   private documentVersion = 0;
-  private connection: rpc.MessageConnection;
+  private pendingChanges: lsProtocol.TextDocumentContentChangeEvent[] = [];
+  private inFlightRequests: { [feature: string]: CancellationTokenSource } = {};
+  private connection: MessageConnection;
+  /**
+   * The connection that owns the transport. Documents opened with `openDocument` share it
+   */
+  private root: LspWsConnection = this;
+  private documents: { [uri: string]: LspWsConnection } = {};
+  private settings: SettingsStore;
+  private partialResultTokens = 0;
+  private trace: lsProtocol.TraceValues;
+  /**
+   * The result id and diagnostics of the last `textDocument/diagnostic` response, which the server
+   * can answer as unchanged
+   */
+  private diagnosticResultId: string | null = null;
+  private pulledDiagnostics: lsProtocol.Diagnostic[] = [];
+  private workspaceFolders: lsProtocol.WorkspaceFolder[];
 
   constructor(options: ILspOptions) {
     super();
     this.documentInfo = options;
+    this.trace = options.trace || 'off';
+    this.workspaceFolders = (options.workspaceFolders || []).slice();
+    const profile = this.getServerProfile();
+    this.settings = new SettingsStore(profile.settings ? profile.settings(options) : {});
+    if (options.documentUri) {
+      this.documents[options.documentUri] = this;
+    }
   }
 
   /**
-   * Initialize a connection over a web socket that speaks the LSP protocol
+   * Initialize a connection that speaks the LSP protocol, over a web socket or any other transport.
+   * Pass a factory instead of a socket or transport to allow reconnecting
    */
-  public connect(socket: WebSocket): this {
-    this.socket = socket;
-
-    rpc.listen({
-      webSocket: this.socket,
-      logger: new ConsoleLogger(),
-      onConnection: (connection: rpc.MessageConnection) => {
-        connection.listen();
-        this.isConnected = true;
-
-        this.connection = connection;
-        this.sendInitialize();
-
-        this.connection.onNotification('textDocument/publishDiagnostics', (
-          params: lsProtocol.PublishDiagnosticsParams,
-        ) => {
-          this.emit('diagnostic', params);
-        });
+  public connect(
+    transport: WebSocket | IMessageTransport | WebSocketFactory | MessageTransportFactory,
+  ): this {
+    if (this.root !== this) {
+      throw new Error('Documents opened with openDocument() share the transport of their connection');
+    }
+    const toTransport = (created: WebSocket | IMessageTransport) => {
+      return isMessageTransport(created) ? created : createWebSocketTransport(created);
+    };
 
-        this.connection.onNotification('window/showMessage', (params: lsProtocol.ShowMessageParams) => {
-          this.emit('logging', params);
-        });
+    this.isClosing = false;
+    if (typeof transport === 'function') {
+      this.transportFactory = () => toTransport(transport());
+      this.transport = this.transportFactory();
+    } else {
+      this.transportFactory = null;
+      this.transport = toTransport(transport);
+    }
+    this.listen(this.transport);
 
-        this.connection.onRequest('client/registerCapability', (params: lsProtocol.RegistrationParams) => {
-          params.registrations.forEach((capabilityRegistration: lsProtocol.Registration) => {
-            this.serverCapabilities = registerServerCapability(this.serverCapabilities, capabilityRegistration);
-          });
+    return this;
+  }
 
-          this.emit('logging', params);
-        });
+public close() {
+  if (this.root !== this) {
+    this.closeDocument();
+    return;
+  }
+  this.isClosing = true;
+  this.setConnected(false);
+  this.isInitialized = false;
+  this.cancelReconnect();
+  if (this.connection) {
+    this.connection.dispose();
+  }
+  if (this.transport) {
+    this.transport.dispose();
+  }
+}
 
-        this.connection.onRequest('client/unregisterCapability', (params: lsProtocol.UnregistrationParams) => {
-          params.unregisterations.forEach((capabilityUnregistration: lsProtocol.Unregistration) => {
-            this.serverCapabilities = unregisterServerCapability(this.serverCapabilities, capabilityUnregistration);
-          });
+public getWorkspaceFolders(): lsProtocol.WorkspaceFolder[] {
+  return this.root.workspaceFolders.slice();
+}
 
-          this.emit('logging', params);
-        });
+/**
+ * Adds a folder to the workspace, unless a folder with the same URI is already part of it
+ */
+public addWorkspaceFolder(folder: lsProtocol.WorkspaceFolder) {
+  const root = this.root;
+  if (root.workspaceFolders.some((existing) => existing.uri === folder.uri)) {
+    return;
+  }
+  root.workspaceFolders.push(folder);
+  root.sendWorkspaceFoldersChange({ added: [folder], removed: [] });
+}
 
-        this.connection.onRequest('window/showMessageRequest', (params: lsProtocol.ShowMessageRequestParams) => {
-          this.emit('logging', params);
-        });
+public removeWorkspaceFolder(uri: string) {
+  const root = this.root;
+  const removed = root.workspaceFolders.filter((folder) => folder.uri === uri);
+  if (!removed.length) {
+    return;
+  }
+  root.workspaceFolders = root.workspaceFolders.filter((folder) => folder.uri !== uri);
+  root.sendWorkspaceFoldersChange({ added: [], removed });
+}
 
-        this.connection.onError((e) => {
-          this.isConnected = false;
-          this.isInitialized = false;
-          this.emit('logging', e);
-        });
+/**
+ * Tells the server about files that changed outside of the editors, like in a project tree. Only the
+ * changes that match a file watcher the server registered are sent
+ */
+public notifyWatchedFilesChanged(changes: lsProtocol.FileEvent[]) {
+  const root = this.root;
+  if (!root.isConnected || !root.isInitialized) {
+    return;
+  }
+  const watchers = Object.keys(root.registrations)
+    .map((id) => root.registrations[id])
+    .filter((registration) => registration.method === 'workspace/didChangeWatchedFiles')
+    .reduce((all, registration) => {
+      const options = registration.registerOptions as lsProtocol.DidChangeWatchedFilesRegistrationOptions;
+      return all.concat(options ? options.watchers : []);
+    }, [] as lsProtocol.FileSystemWatcher[]);
 
-        this.connection.onClose(() => {
-          this.isConnected = false;
-          this.isInitialized = false;
-        });
-      },
-    });
+  const matching = changes.filter((change) => watchers.some((watcher) => {
+    // Watchers without a kind watch every kind of change
+    // tslint:disable-next-line:no-bitwise
+    const isWatched = typeof watcher.kind !== 'number' || (watcher.kind & WatchKinds[change.type]) !== 0;
+    return isWatched && matchGlobPattern(watcher.globPattern, change.uri);
+  }));
+  if (matching.length) {
+    root.connection.sendNotification('workspace/didChangeWatchedFiles', {
+      changes: matching,
+    } as lsProtocol.DidChangeWatchedFilesParams);
+  }
+}
 
-    return this;
+/**
+ * Asks the server for the edits to make before files are created, for example to fill them in.
+ * Resolves with null when the server is not interested in the files
+ */
+public willCreateFiles(uris: string[]): Promise<lsProtocol.WorkspaceEdit | null> {
+  const files = this.getFileOperationFiles('willCreate', uris.map((uri) => ({ uri })), (file) => file.uri);
+  if (!files.length) {
+    return Promise.resolve(null);
   }
+  return this.root.connection.sendRequest('workspace/willCreateFiles', { files } as lsProtocol.CreateFilesParams);
+}
 
-public close() {
-  this.isConnected = false;
-  this.isInitialized = false;
-  if (this.connection) {
-    this.connection.dispose();
+public didCreateFiles(uris: string[]) {
+  const files = this.getFileOperationFiles('didCreate', uris.map((uri) => ({ uri })), (file) => file.uri);
+  if (files.length) {
+    this.root.connection.sendNotification('workspace/didCreateFiles', { files } as lsProtocol.CreateFilesParams);
+  }
+}
+
+/**
+ * Asks the server for the edits to make before files are renamed, like updating imports
+ */
+public willRenameFiles(files: lsProtocol.FileRename[]): Promise<lsProtocol.WorkspaceEdit | null> {
+  const matching = this.getFileOperationFiles('willRename', files, (file) => file.oldUri);
+  if (!matching.length) {
+    return Promise.resolve(null);
+  }
+  return this.root.connection.sendRequest('workspace/willRenameFiles', {
+    files: matching,
+  } as lsProtocol.RenameFilesParams);
+}
+
+public didRenameFiles(files: lsProtocol.FileRename[]) {
+  const matching = this.getFileOperationFiles('didRename', files, (file) => file.oldUri);
+  if (matching.length) {
+    this.root.connection.sendNotification('workspace/didRenameFiles', {
+      files: matching,
+    } as lsProtocol.RenameFilesParams);
+  }
+}
+
+/**
+ * Asks the server for the edits to make before files are deleted
+ */
+public willDeleteFiles(uris: string[]): Promise<lsProtocol.WorkspaceEdit | null> {
+  const files = this.getFileOperationFiles('willDelete', uris.map((uri) => ({ uri })), (file) => file.uri);
+  if (!files.length) {
+    return Promise.resolve(null);
+  }
+  return this.root.connection.sendRequest('workspace/willDeleteFiles', { files } as lsProtocol.DeleteFilesParams);
+}
+
+public didDeleteFiles(uris: string[]) {
+  const files = this.getFileOperationFiles('didDelete', uris.map((uri) => ({ uri })), (file) => file.uri);
+  if (files.length) {
+    this.root.connection.sendNotification('workspace/didDeleteFiles', { files } as lsProtocol.DeleteFilesParams);
+  }
+}
+
+/**
+ * Changes how much the server reports with `$/logTrace`. The new value is also used when reconnecting
+ */
+public setTrace(value: lsProtocol.TraceValues) {
+  const root = this.root;
+  root.trace = value;
+  if (root.isConnected && root.isInitialized) {
+    root.connection.sendNotification('$/setTrace', { value } as lsProtocol.SetTraceParams);
+  }
+}
+
+/**
+ * Closes the connection gracefully: every open document is closed, the server is asked to shut down
+ * and then to exit. A document opened with `openDocument` only sends `textDocument/didClose`
+ */
+public dispose(): Promise<void> {
+  if (this.root !== this) {
+    this.closeDocument();
+    return Promise.resolve();
   }
-  if (this.socket) {
-    this.socket.close();
+  // A reconnect that is still waiting would open a transport that nobody closes
+  this.cancelReconnect();
+  if (!this.isConnected || !this.isInitialized) {
+    this.close();
+    return Promise.resolve();
   }
+
+  // The server closes the transport after exit, which must not trigger a reconnect
+  this.isClosing = true;
+  Object.keys(this.documents).forEach((uri) => {
+    this.documents[uri].closeDocument();
+  });
+
+  const connection = this.connection;
+  let timer: number;
+  const timeout = new Promise<void>((resolve) => {
+    timer = window.setTimeout(resolve, this.documentInfo.shutdownTimeout || 1000);
+  });
+  return Promise.race([connection.sendRequest('shutdown'), timeout])
+    .then(() => undefined, () => undefined)
+    .then(() => {
+      window.clearTimeout(timer);
+      return connection.sendNotification('exit').then(() => undefined, () => undefined);
+    })
+    .then(() => this.close());
+}
+
+/**
+ * Tells the server that the document was closed with `textDocument/didClose`. The transport stays open
+ * for the other documents, and the server is only shut down by `dispose`
+ */
+public closeDocument() {
+  const root = this.root;
+  if (root.documents[this.documentInfo.documentUri] !== this) {
+    return;
+  }
+  delete root.documents[this.documentInfo.documentUri];
+  Object.keys(this.inFlightRequests).forEach((feature) => {
+    this.inFlightRequests[feature].cancel();
+    this.inFlightRequests[feature].dispose();
+  });
+  this.inFlightRequests = {};
+  if (root.isConnected && root.isInitialized) {
+    root.connection.sendNotification('textDocument/didClose', {
+      textDocument: {
+        uri: this.documentInfo.documentUri,
+      },
+    } as lsProtocol.DidCloseTextDocumentParams);
+  }
+  if (root !== this) {
+    this.isConnected = false;
+  }
+}
+
+/**
+ * Get the settings the server is given for a section, like `python.analysis`, and optionally a scope URI
+ */
+public getSettings(section?: string, scopeUri?: string): any {
+  return this.root.settings.get(section, scopeUri);
+}
+
+/**
+ * Change a setting at runtime. Settings for a scope URI override the global ones for every
+ * resource inside of it. The server is sent `workspace/didChangeConfiguration`
+ */
+public updateSettings(section: string, value: any, scopeUri?: string) {
+  const root = this.root;
+  root.settings.set(section, value, scopeUri);
+  if (root.isConnected && root.isInitialized) {
+    root.connection.sendNotification('workspace/didChangeConfiguration', {
+      settings: root.settings.get(),
+    } as lsProtocol.DidChangeConfigurationParams);
+  }
+}
+
+/**
+ * The version of the document that the server has seen last
+ */
+public getDocumentVersion() {
+  return this.documentVersion;
 }
 
 public getDocumentUri() {
   return this.documentInfo.documentUri;
 }
 
+/**
+ * Opens another document on the same language server. The returned connection has its own version
+ * counter, requests and diagnostics, and can be passed to an editor adapter. Closing it sends
+ * `textDocument/didClose` without closing the transport
+ */
+public openDocument(options: IDocumentOptions): LspWsConnection {
+  if (this.root !== this) {
+    return this.root.openDocument(options);
+  }
+  if (this.documents[options.documentUri]) {
+    throw new Error(`${options.documentUri} is already open`);
+  }
+  const document = new LspWsConnection(Object.assign({}, this.documentInfo, options));
+  document.root = this;
+  document.isConnected = this.isConnected;
+  this.documents[options.documentUri] = document;
+  if (this.isConnected && this.isInitialized) {
+    document.sendDidOpen();
+  }
+  return document;
+}
+
 public sendInitialize() {
-  if (!this.isConnected) {
+  if (!this.isConnected || this.root !== this) {
     return;
   }
 
-  const message: lsProtocol.InitializeParams = {
-    capabilities: {
-      textDocument: {
-        hover: {
-          dynamicRegistration: true,
-          contentFormat: ['markdown'],
-        },
-        synchronization: {
-          dynamicRegistration: true,
-          willSave: false,
-          didSave: false,
-          willSaveWaitUntil: false,
-        },
-        completion: {
-          dynamicRegistration: true,
-          completionItem: {
-            snippetSupport: false,
-            commitCharactersSupport: true,
-            documentationFormat: ['plaintext', 'markdown'],
-            deprecatedSupport: false,
-            preselectSupport: false,
-          },
-          contextSupport: false,
-        },
-        diagnostic: {
-          dynamicRegistration: true,
-          relatedDocumentSupport: false,
+  const profile = this.getServerProfile();
+  const capabilities = {
+    textDocument: {
+      hover: {
+        dynamicRegistration: true,
+        contentFormat: ['markdown'],
+      },
+      synchronization: {
+        dynamicRegistration: true,
+        willSave: true,
+        didSave: true,
+        willSaveWaitUntil: true,
+      },
+      completion: {
+        dynamicRegistration: true,
+        completionItem: {
+          snippetSupport: false,
+          commitCharactersSupport: true,
+          documentationFormat: ['plaintext', 'markdown'],
+          deprecatedSupport: false,
+          preselectSupport: false,
         },
-        publishDiagnostics: {
-          relatedInformation: false,
-          dataSupport: false,
-          codeDescriptionSupport: false,
-          versionSupport: false,
+        contextSupport: false,
+      },
+      diagnostic: {
+        dynamicRegistration: true,
+        relatedDocumentSupport: false,
+      },
+      publishDiagnostics: {
+        relatedInformation: false,
+        dataSupport: false,
+        codeDescriptionSupport: false,
+        versionSupport: false,
+      },
+      signatureHelp: {
+        dynamicRegistration: true,
+        signatureInformation: {
+          documentationFormat: ['plaintext', 'markdown'],
         },
-        signatureHelp: {
-          dynamicRegistration: true,
-          signatureInformation: {
-            documentationFormat: ['plaintext', 'markdown'],
+      },
+      declaration: {
+        dynamicRegistration: true,
+        linkSupport: true,
+      },
+      definition: {
+        dynamicRegistration: true,
+        linkSupport: true,
+      },
+      typeDefinition: {
+        dynamicRegistration: true,
+        linkSupport: true,
+      },
+      implementation: {
+        dynamicRegistration: true,
+        linkSupport: true,
+      },
+      documentSymbol: {
+        dynamicRegistration: true,
+        hierarchicalDocumentSymbolSupport: true,
+      },
+      codeAction: {
+        dynamicRegistration: true,
+        codeActionLiteralSupport: {
+          codeActionKind: {
+            valueSet: [
+              lsProtocol.CodeActionKind.QuickFix,
+              lsProtocol.CodeActionKind.Refactor,
+              lsProtocol.CodeActionKind.Source,
+            ],
           },
         },
-        declaration: {
-          dynamicRegistration: true,
-          linkSupport: true,
+        isPreferredSupport: true,
+        disabledSupport: true,
+        dataSupport: true,
+        resolveSupport: {
+          properties: ['edit'],
         },
-        definition: {
-          dynamicRegistration: true,
-          linkSupport: true,
-        },
-        typeDefinition: {
-          dynamicRegistration: true,
-          linkSupport: true,
-        },
-        implementation: {
-          dynamicRegistration: true,
-          linkSupport: true,
-        },
-      } as ExtendedClientCapabilities,
-      workspace: {
-        didChangeConfiguration: {
-          dynamicRegistration: true,
+      },
+      formatting: {
+        dynamicRegistration: true,
+      },
+      rangeFormatting: {
+        dynamicRegistration: true,
+      },
+      onTypeFormatting: {
+        dynamicRegistration: true,
+      },
+      foldingRange: {
+        dynamicRegistration: true,
+        lineFoldingOnly: false,
+        foldingRangeKind: {
+          valueSet: [
+            lsProtocol.FoldingRangeKind.Comment,
+            lsProtocol.FoldingRangeKind.Imports,
+            lsProtocol.FoldingRangeKind.Region,
+          ],
         },
-        diagnostics: {
-          refreshSupport: false,
+        foldingRange: {
+          collapsedText: true,
         },
-      } as lsProtocol.WorkspaceClientCapabilities,
-    } as lsProtocol.ClientCapabilities,
-    initializationOptions: {
-      disableAutomaticTypingAcquisition: true,
-      locale: this.documentInfo.locale || 'en',
-      preferences: {
-        displayPartsForJSDoc: true,
-        disableSuggestions: true,
       },
-      tsserver: this.documentInfo.tsserver,
+      rename: {
+        dynamicRegistration: true,
+        prepareSupport: true,
+        prepareSupportDefaultBehavior: lsProtocol.PrepareSupportDefaultBehavior.Identifier,
+        honorsChangeAnnotations: false,
+      },
+    } as ExtendedClientCapabilities,
+    window: {
+      workDoneProgress: true,
     },
+    workspace: {
+      applyEdit: true,
+      workspaceEdit: {
+        documentChanges: true,
+        resourceOperations: [
+          lsProtocol.ResourceOperationKind.Create,
+          lsProtocol.ResourceOperationKind.Rename,
+          lsProtocol.ResourceOperationKind.Delete,
+        ],
+        failureHandling: lsProtocol.FailureHandlingKind.Abort,
+      },
+      configuration: true,
+      workspaceFolders: true,
+      executeCommand: {
+        dynamicRegistration: true,
+      },
+      symbol: {
+        dynamicRegistration: true,
+      },
+      didChangeConfiguration: {
+        dynamicRegistration: true,
+      },
+      didChangeWatchedFiles: {
+        dynamicRegistration: true,
+        relativePatternSupport: true,
+      },
+      fileOperations: {
+        dynamicRegistration: false,
+        didCreate: true,
+        willCreate: true,
+        didRename: true,
+        willRename: true,
+        didDelete: true,
+        willDelete: true,
+      },
+      diagnostics: {
+        refreshSupport: true,
+      },
+    } as lsProtocol.WorkspaceClientCapabilities,
+    xfilesProvider: !!this.documentInfo.virtualFileSystem,
+    xcontentProvider: !!this.documentInfo.virtualFileSystem,
+  } as ExtendedClientCapabilities;
+
+  const message: lsProtocol.InitializeParams = {
+    capabilities: merge({}, capabilities, profile.capabilities),
+    initializationOptions: profile.initializationOptions
+      ? profile.initializationOptions(this.documentInfo)
+      : undefined,
+    locale: this.documentInfo.locale,
     processId: null,
     rootUri: this.documentInfo.rootUri,
-    workspaceFolders: null,
-    // workspaceFolders: [{ name: "root", uri: "" }]
+    trace: this.trace,
+    workspaceFolders: this.workspaceFolders.length ? this.workspaceFolders : null,
   };
 
   this.connection.sendRequest('initialize', message).then((params: lsProtocol.InitializeResult) => {
     this.isInitialized = true;
+    this.reconnectAttempts = 0;
     this.serverCapabilities = params.capabilities as ServerCapabilities;
-    const textDocumentMessage: lsProtocol.DidOpenTextDocumentParams = {
-      textDocument: {
-        uri: this.documentInfo.documentUri,
-        languageId: this.documentInfo.languageId,
-        text: this.documentInfo.documentText(),
-        version: this.documentVersion,
-      } as lsProtocol.TextDocumentItem,
-    };
+    // A new server process knows nothing about what the previous one registered
+    Object.keys(this.registrations).forEach((id) => {
+      this.serverCapabilities = registerServerCapability(this.serverCapabilities, this.registrations[id]);
+    });
     this.connection.sendNotification('initialized');
     this.connection.sendNotification('workspace/didChangeConfiguration', {
-      settings: {
-        implicitProjectConfiguration: {
-          allowJs: true,
-          jsx: 'preserve',
-          checkJs: false,
-          allowSyntheticDefaultImports: true,
-          target: 'esnext',
-          module: 'esnext',
-          moduleResolution: 'node',
-          experimentalDecorators: true,
-        },
-        diagnostics: {
-          ignoredCodes: [],
-        }
-      },
+      settings: this.settings.get(),
+    } as lsProtocol.DidChangeConfigurationParams);
+    Object.keys(this.documents).forEach((uri) => {
+      this.documents[uri].sendDidOpen();
     });
-    this.connection.sendNotification('textDocument/didOpen', textDocumentMessage);
-    this.sendChange();
   }, (e) => {
   });
 }
 
+public queueChange(change: lsProtocol.TextDocumentContentChangeEvent) {
+  if (!this.root.isConnected || !this.root.isInitialized) {
+    // The text sent with didOpen already contains this change
+    return;
+  }
+  this.pendingChanges.push(change);
+}
+
 public sendChange() {
-  if (!this.isConnected) {
+  if (!this.root.isConnected || !this.root.isInitialized) {
+    return;
+  }
+  const syncKind = this.getTextDocumentSyncKind();
+  const pendingChanges = this.pendingChanges;
+  this.pendingChanges = [];
+  if (syncKind === lsProtocol.TextDocumentSyncKind.None) {
     return;
   }
+
+  let contentChanges: lsProtocol.TextDocumentContentChangeEvent[];
+  if (syncKind === lsProtocol.TextDocumentSyncKind.Incremental && pendingChanges.length) {
+    contentChanges = pendingChanges;
+  } else {
+    contentChanges = [{
+      text: this.documentInfo.documentText(),
+    }];
+  }
+
+  this.documentVersion++;
   const textDocumentChange: lsProtocol.DidChangeTextDocumentParams = {
     textDocument: {
       uri: this.documentInfo.documentUri,
       version: this.documentVersion,
     } as lsProtocol.VersionedTextDocumentIdentifier,
-    contentChanges: [{
-      text: this.documentInfo.documentText(),
-    }],
+    contentChanges,
   };
-  this.connection.sendNotification('textDocument/didChange', textDocumentChange);
-  this.documentVersion++;
+  this.root.connection.sendNotification('textDocument/didChange', textDocumentChange);
+  this.pullDiagnostics();
+  if (this.listenerCount('foldingRanges') > 0) {
+    this.pullFoldingRanges();
+  }
+}
+
+public hasQueuedChanges() {
+  return this.pendingChanges.length > 0;
+}
+
+/**
+ * Sends `textDocument/willSave`, and resolves with the edits from `textDocument/willSaveWaitUntil`
+ * when the server supports it
+ */
+public notifySave(
+  reason: lsProtocol.TextDocumentSaveReason = lsProtocol.TextDocumentSaveReason.Manual,
+): Promise<lsProtocol.TextEdit[] | null> {
+  if (!this.root.isConnected || !this.root.isInitialized) {
+    return Promise.resolve(null);
+  }
+  const syncOptions = getTextDocumentSyncOptions(this.root.serverCapabilities);
+  const params: lsProtocol.WillSaveTextDocumentParams = {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    reason,
+  };
+  if (syncOptions.willSave) {
+    this.root.connection.sendNotification('textDocument/willSave', params);
+  }
+  if (!syncOptions.willSaveWaitUntil) {
+    return Promise.resolve(null);
+  }
+
+  const version = this.documentVersion;
+  return this.root.connection.sendRequest('textDocument/willSaveWaitUntil', params)
+    .then((edits: lsProtocol.TextEdit[] | null) => {
+    // Edits for an older version of the document would end up in the wrong place
+    return version === this.documentVersion ? edits : null;
+  });
 }
 
-public getHoverTooltip(location: IPosition) {
-  if (!this.isConnected) {
+/**
+ * Sends `textDocument/didSave`, with the saved text when the server asks for it. The text
+ * defaults to the current text of the document
+ */
+public notifyDidSave(text?: string) {
+  if (!this.root.isConnected || !this.root.isInitialized) {
     return;
   }
-  if (!this.isInitialized) {
+  const save = getTextDocumentSyncOptions(this.root.serverCapabilities).save;
+  if (!save) {
     return;
   }
-  this.connection.sendRequest('textDocument/hover', {
+  const params: lsProtocol.DidSaveTextDocumentParams = {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+  };
+  if (typeof save === 'object' && save.includeText) {
+    params.text = typeof text === 'string' ? text : this.documentInfo.documentText();
+  }
+  this.root.connection.sendNotification('textDocument/didSave', params);
+}
+
+/**
+ * Requests the diagnostics of the document from servers that only provide them when asked. They are
+ * emitted as a 'diagnostic' event, just like the diagnostics that servers publish on their own
+ */
+public getDiagnostics(): Promise<lsProtocol.Diagnostic[] | null> {
+  if (!this.root.isConnected || !this.root.isInitialized) {
+    return Promise.resolve(null);
+  }
+  const provider = this.root.serverCapabilities && this.root.serverCapabilities.diagnosticProvider;
+  if (!provider) {
+    return Promise.resolve(null);
+  }
+  const token = this.beginRequest('diagnostic');
+  const version = this.documentVersion;
+  return this.root.connection.sendRequest('textDocument/diagnostic', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    identifier: typeof provider === 'object' ? provider.identifier : undefined,
+    previousResultId: this.diagnosticResultId || undefined,
+  } as lsProtocol.DocumentDiagnosticParams, token).then((report: lsProtocol.DocumentDiagnosticReport) => {
+    if (this.isStaleResponse('diagnostic', token, version)) {
+      return null;
+    }
+    this.diagnosticResultId = report.resultId || null;
+    if (report.kind === lsProtocol.DocumentDiagnosticReportKind.Full) {
+      this.pulledDiagnostics = report.items;
+    }
+    this.emit('diagnostic', {
+      uri: this.documentInfo.documentUri,
+      version,
+      diagnostics: this.pulledDiagnostics,
+    } as lsProtocol.PublishDiagnosticsParams);
+    return this.pulledDiagnostics;
+  }, (e) => this.handleRequestError('diagnostic', token, e));
+}
+
+/**
+ * Requests the ranges of the document that can be folded. This happens after every change while
+ * anyone listens for 'foldingRanges', which is where the ranges are emitted
+ */
+public getFoldingRanges(): Promise<lsProtocol.FoldingRange[] | null> {
+  if (!this.root.isConnected || !this.root.isInitialized || !this.isFoldingRangeSupported()) {
+    return Promise.resolve(null);
+  }
+  const token = this.beginRequest('foldingRange');
+  const version = this.documentVersion;
+  return this.root.connection.sendRequest('textDocument/foldingRange', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+  } as lsProtocol.FoldingRangeParams, token).then((ranges: lsProtocol.FoldingRange[] | null) => {
+    if (this.isStaleResponse('foldingRange', token, version)) {
+      return null;
+    }
+    this.emit('foldingRanges', ranges || []);
+    return ranges || [];
+  }, (e) => this.handleRequestError('foldingRange', token, e));
+}
+
+public getHoverTooltip(location: IPosition): Promise<lsProtocol.Hover | null> {
+  if (!this.root.isConnected) {
+    return Promise.resolve(null);
+  }
+  if (!this.root.isInitialized) {
+    return Promise.resolve(null);
+  }
+  const token = this.beginRequest('hover');
+  const version = this.documentVersion;
+  return this.root.connection.sendRequest('textDocument/hover', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -264,9 +806,13 @@ public getHoverTooltip(location: IPosition) {
       line: location.line,
       character: location.ch,
     },
-  } as lsProtocol.TextDocumentPositionParams).then((params: lsProtocol.Hover) => {
+  } as lsProtocol.TextDocumentPositionParams, token).then((params: lsProtocol.Hover) => {
+    if (this.isStaleResponse('hover', token, version)) {
+      return null;
+    }
     this.emit('hover', params, location);
-  });
+    return params;
+  }, (e) => this.handleRequestError('hover', token, e));
 }
 
 public getCompletion(
@@ -274,15 +820,17 @@ public getCompletion(
   token: ICompletionTokenInfo,
   triggerCharacter?: string,
   triggerKind?: lsProtocol.CompletionTriggerKind,
-) {
-  if (!this.isConnected) {
-    return;
+): Promise<lsProtocol.CompletionItem[] | null> {
+  if (!this.root.isConnected) {
+    return Promise.resolve(null);
   }
-  if (!(this.serverCapabilities && this.serverCapabilities.completionProvider)) {
-    return;
+  if (!(this.root.serverCapabilities && this.root.serverCapabilities.completionProvider)) {
+    return Promise.resolve(null);
   }
 
-  this.connection.sendRequest('textDocument/completion', {
+  const cancellationToken = this.beginRequest('completion');
+  const version = this.documentVersion;
+  return this.root.connection.sendRequest('textDocument/completion', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -294,31 +842,38 @@ public getCompletion(
       triggerKind: triggerKind || lsProtocol.CompletionTriggerKind.Invoked,
       triggerCharacter,
     },
-  } as lsProtocol.CompletionParams).then((params: lsProtocol.CompletionList | lsProtocol.CompletionItem[] | null) => {
-    if (!params) {
-      this.emit('completion', params);
-      return;
+  } as lsProtocol.CompletionParams, cancellationToken).then((
+    params: lsProtocol.CompletionList | lsProtocol.CompletionItem[] | null,
+  ) => {
+    if (this.isStaleResponse('completion', cancellationToken, version)) {
+      return null;
     }
-    this.emit('completion', 'items' in params ? params.items : params);
-  });
+    let items: lsProtocol.CompletionItem[] | null = null;
+    if (params) {
+      items = 'items' in params ? params.items : params;
+    }
+    this.emit('completion', items, location);
+    return items;
+  }, (e) => this.handleRequestError('completion', cancellationToken, e));
 }
 
-public getDetailedCompletion(completionItem: lsProtocol.CompletionItem) {
-  if (!this.isConnected) {
-    return;
+public getDetailedCompletion(completionItem: lsProtocol.CompletionItem): Promise<lsProtocol.CompletionItem | null> {
+  if (!this.root.isConnected) {
+    return Promise.resolve(null);
   }
-  this.connection.sendRequest('completionItem/resolve', completionItem)
+  return this.root.connection.sendRequest('completionItem/resolve', completionItem)
     .then((result: lsProtocol.CompletionItem) => {
     this.emit('completionResolved', result);
+    return result;
   });
 }
 
-public getSignatureHelp(location: IPosition) {
-  if (!this.isConnected) {
-    return;
+public getSignatureHelp(location: IPosition): Promise<lsProtocol.SignatureHelp | null> {
+  if (!this.root.isConnected) {
+    return Promise.resolve(null);
   }
-  if (!(this.serverCapabilities && this.serverCapabilities.signatureHelpProvider)) {
-    return;
+  if (!(this.root.serverCapabilities && this.root.serverCapabilities.signatureHelpProvider)) {
+    return Promise.resolve(null);
   }
 
   const code = this.documentInfo.documentText();
@@ -326,14 +881,16 @@ public getSignatureHelp(location: IPosition) {
   const typedCharacter = lines[location.line][location.ch];
 
   if (
-    this.serverCapabilities.signatureHelpProvider &&
-    !this.serverCapabilities.signatureHelpProvider.triggerCharacters.indexOf(typedCharacter)
+    this.root.serverCapabilities.signatureHelpProvider &&
+    !this.root.serverCapabilities.signatureHelpProvider.triggerCharacters.indexOf(typedCharacter)
   ) {
     // Not a signature character
-    return;
+    return Promise.resolve(null);
   }
 
-  this.connection.sendRequest('textDocument/signatureHelp', {
+  const token = this.beginRequest('signature');
+  const version = this.documentVersion;
+  return this.root.connection.sendRequest('textDocument/signatureHelp', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -341,23 +898,27 @@ public getSignatureHelp(location: IPosition) {
       line: location.line,
       character: location.ch,
     },
-  } as lsProtocol.TextDocumentPositionParams).then((params: lsProtocol.SignatureHelp) => {
-    this.emit('signature', params);
-  });
+  } as lsProtocol.TextDocumentPositionParams, token).then((params: lsProtocol.SignatureHelp) => {
+    if (this.isStaleResponse('signature', token, version)) {
+      return null;
+    }
+    this.emit('signature', params, location);
+    return params;
+  }, (e) => this.handleRequestError('signature', token, e));
 }
 
 /**
    * Request the locations of all matching document symbols
    */
-public getDocumentHighlights(location: IPosition) {
-  if (!this.isConnected) {
-    return;
+public getDocumentHighlights(location: IPosition): Promise<lsProtocol.DocumentHighlight[] | null> {
+  if (!this.root.isConnected) {
+    return Promise.resolve(null);
   }
-  if (!(this.serverCapabilities && this.serverCapabilities.documentHighlightProvider)) {
-    return;
+  if (!(this.root.serverCapabilities && this.root.serverCapabilities.documentHighlightProvider)) {
+    return Promise.resolve(null);
   }
 
-  this.connection.sendRequest('textDocument/documentHighlight', {
+  return this.root.connection.sendRequest('textDocument/documentHighlight', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -365,8 +926,9 @@ public getDocumentHighlights(location: IPosition) {
       line: location.line,
       character: location.ch,
     },
-  } as lsProtocol.TextDocumentPositionParams).then((params: lsProtocol.DocumentHighlight[]) => {
+  } as lsProtocol.TextDocumentPositionParams).then((params: lsProtocol.DocumentHighlight[] | null) => {
     this.emit('highlight', params);
+    return params;
   });
 }
 
@@ -374,11 +936,11 @@ public getDocumentHighlights(location: IPosition) {
    * Request a link to the definition of the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-public getDefinition(location: IPosition) {
-  if (!this.isConnected || !this.isDefinitionSupported()) {
-    return;
+public getDefinition(location: IPosition): Promise<Location | Location[] | LocationLink[] | null> {
+  if (!this.root.isConnected || !this.isDefinitionSupported()) {
+    return Promise.resolve(null);
   }
-  this.connection.sendRequest('textDocument/definition', {
+  return this.root.connection.sendRequest('textDocument/definition', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -388,6 +950,7 @@ public getDefinition(location: IPosition) {
     },
   } as lsProtocol.TextDocumentPositionParams).then((result: Location | Location[] | LocationLink[] | null) => {
     this.emit('goTo', result);
+    return result;
   });
 }
 
@@ -395,12 +958,12 @@ public getDefinition(location: IPosition) {
    * Request a link to the type definition of the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-public getTypeDefinition(location: IPosition) {
-  if (!this.isConnected || !this.isTypeDefinitionSupported()) {
-    return;
+public getTypeDefinition(location: IPosition): Promise<Location | Location[] | LocationLink[] | null> {
+  if (!this.root.isConnected || !this.isTypeDefinitionSupported()) {
+    return Promise.resolve(null);
   }
 
-  this.connection.sendRequest('textDocument/typeDefinition', {
+  return this.root.connection.sendRequest('textDocument/typeDefinition', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -410,6 +973,7 @@ public getTypeDefinition(location: IPosition) {
     },
   } as lsProtocol.TextDocumentPositionParams).then((result: Location | Location[] | LocationLink[] | null) => {
     this.emit('goTo', result);
+    return result;
   });
 }
 
@@ -417,12 +981,12 @@ public getTypeDefinition(location: IPosition) {
    * Request a link to the implementation of the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-public getImplementation(location: IPosition) {
-  if (!this.isConnected || !this.isImplementationSupported()) {
-    return;
+public getImplementation(location: IPosition): Promise<Location | Location[] | LocationLink[] | null> {
+  if (!this.root.isConnected || !this.isImplementationSupported()) {
+    return Promise.resolve(null);
   }
 
-  this.connection.sendRequest('textDocument/implementation', {
+  return this.root.connection.sendRequest('textDocument/implementation', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -432,6 +996,7 @@ public getImplementation(location: IPosition) {
     },
   } as lsProtocol.TextDocumentPositionParams).then((result: Location | Location[] | LocationLink[] | null) => {
     this.emit('goTo', result);
+    return result;
   });
 }
 
@@ -439,12 +1004,15 @@ public getImplementation(location: IPosition) {
    * Request a link to all references to the current symbol. The results will not be displayed
    * unless they are within the same file URI
    */
-public getReferences(location: IPosition) {
-  if (!this.isConnected || !this.isReferencesSupported()) {
-    return;
+public getReferences(
+  location: IPosition,
+  onPartialResult?: (references: Location[]) => void,
+): Promise<Location[] | null> {
+  if (!this.root.isConnected || !this.isReferencesSupported()) {
+    return Promise.resolve(null);
   }
 
-  this.connection.sendRequest('textDocument/references', {
+  return this.sendPartialResultRequest('textDocument/references', {
     textDocument: {
       uri: this.documentInfo.documentUri,
     },
@@ -452,71 +1020,766 @@ public getReferences(location: IPosition) {
       line: location.line,
       character: location.ch,
     },
-  } as lsProtocol.ReferenceParams).then((result: Location[] | null) => {
+  } as lsProtocol.ReferenceParams, onPartialResult).then((result: Location[] | null) => {
     this.emit('goTo', result);
+    return result;
+  });
+}
+
+/**
+ * Request the symbols of the document, as a hierarchy when the server supports it
+ */
+public getDocumentSymbols(
+  onPartialResult?: (symbols: lsProtocol.DocumentSymbol[] | lsProtocol.SymbolInformation[]) => void,
+): Promise<lsProtocol.DocumentSymbol[] | lsProtocol.SymbolInformation[] | null> {
+  const capabilities = this.root.serverCapabilities;
+  if (!this.root.isConnected || !(capabilities && capabilities.documentSymbolProvider)) {
+    return Promise.resolve(null);
+  }
+
+  return this.sendPartialResultRequest('textDocument/documentSymbol', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+  } as lsProtocol.DocumentSymbolParams, onPartialResult);
+}
+
+/**
+ * Request the symbols in the whole workspace that match the query
+ */
+public getWorkspaceSymbols(
+  query: string,
+  onPartialResult?: (symbols: lsProtocol.SymbolInformation[] | lsProtocol.WorkspaceSymbol[]) => void,
+): Promise<lsProtocol.SymbolInformation[] | lsProtocol.WorkspaceSymbol[] | null> {
+  const capabilities = this.root.serverCapabilities;
+  if (!this.root.isConnected || !(capabilities && capabilities.workspaceSymbolProvider)) {
+    return Promise.resolve(null);
+  }
+
+  return this.sendPartialResultRequest('workspace/symbol', {
+    query,
+  } as lsProtocol.WorkspaceSymbolParams, onPartialResult);
+}
+
+/**
+ * Request the code actions for a range of the document, for example the quick fixes for its diagnostics
+ */
+public getCodeActions(
+  range: lsProtocol.Range,
+  context: lsProtocol.CodeActionContext,
+): Promise<Array<lsProtocol.Command | lsProtocol.CodeAction> | null> {
+  if (!this.root.isConnected || !this.isCodeActionSupported()) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('textDocument/codeAction', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    range,
+    context,
+  } as lsProtocol.CodeActionParams).then((actions: Array<lsProtocol.Command | lsProtocol.CodeAction> | null) => {
+    const only = context.only;
+    if (!actions || !only || !only.length) {
+      return actions;
+    }
+    // Servers may return more kinds than were asked for, and commands have no kind at all
+    return actions.filter((action) => {
+      const kind = (action as lsProtocol.CodeAction).kind;
+      return typeof kind === 'string' && only.some((wanted) => kind === wanted || kind.indexOf(wanted + '.') === 0);
+    });
   });
 }
 
+/**
+ * Request the edit of a code action that the server left out of `getCodeActions`
+ */
+public resolveCodeAction(action: lsProtocol.CodeAction): Promise<lsProtocol.CodeAction | null> {
+  const provider = this.root.serverCapabilities && this.root.serverCapabilities.codeActionProvider;
+  if (!this.root.isConnected || !(typeof provider === 'object' && provider.resolveProvider)) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('codeAction/resolve', action);
+}
+
+/**
+ * Asks the server whether the symbol at the position can be renamed. Servers without `prepareRename`
+ * are assumed to allow it, and the editor picks the identifier itself
+ */
+public prepareRename(location: IPosition): Promise<lsProtocol.PrepareRenameResult | null> {
+  if (!this.root.isConnected || !this.isRenameSupported()) {
+    return Promise.resolve(null);
+  }
+  const provider = this.root.serverCapabilities.renameProvider;
+  if (!(typeof provider === 'object' && provider.prepareProvider)) {
+    return Promise.resolve({ defaultBehavior: true });
+  }
+
+  return this.root.connection.sendRequest('textDocument/prepareRename', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    position: {
+      line: location.line,
+      character: location.ch,
+    },
+  } as lsProtocol.PrepareRenameParams);
+}
+
+/**
+ * Request the edit that renames the symbol at the position everywhere it is used
+ */
+public rename(location: IPosition, newName: string): Promise<lsProtocol.WorkspaceEdit | null> {
+  if (!this.root.isConnected || !this.isRenameSupported()) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('textDocument/rename', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    position: {
+      line: location.line,
+      character: location.ch,
+    },
+    newName,
+  } as lsProtocol.RenameParams);
+}
+
+/**
+ * Request the edits that format the whole document
+ */
+public formatDocument(options: lsProtocol.FormattingOptions): Promise<lsProtocol.TextEdit[] | null> {
+  if (!this.root.isConnected || !this.isDocumentFormattingSupported()) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('textDocument/formatting', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    options,
+  } as lsProtocol.DocumentFormattingParams);
+}
+
+/**
+ * Request the edits that format a range of the document, like a selection or pasted text
+ */
+public formatRange(
+  range: lsProtocol.Range,
+  options: lsProtocol.FormattingOptions,
+): Promise<lsProtocol.TextEdit[] | null> {
+  if (!this.root.isConnected || !this.isRangeFormattingSupported()) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('textDocument/rangeFormatting', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    range,
+    options,
+  } as lsProtocol.DocumentRangeFormattingParams);
+}
+
+/**
+ * Request the edits that format the code around the position after one of the characters from
+ * `getFormatOnTypeCharacters` was typed
+ */
+public formatOnType(
+  location: IPosition,
+  ch: string,
+  options: lsProtocol.FormattingOptions,
+): Promise<lsProtocol.TextEdit[] | null> {
+  if (!this.root.isConnected || this.getFormatOnTypeCharacters().indexOf(ch) === -1) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('textDocument/onTypeFormatting', {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+    },
+    position: {
+      line: location.line,
+      character: location.ch,
+    },
+    ch,
+    options,
+  } as lsProtocol.DocumentOnTypeFormattingParams);
+}
+
+/**
+ * The characters that format the code when they are typed
+ */
+public getFormatOnTypeCharacters(): string[] {
+  const provider = this.root.serverCapabilities && this.root.serverCapabilities.documentOnTypeFormattingProvider;
+  if (!provider) {
+    return [];
+  }
+  return [provider.firstTriggerCharacter].concat(provider.moreTriggerCharacter || []);
+}
+
 /**
    * The characters that trigger completion automatically.
    */
 public getLanguageCompletionCharacters(): string[] {
-  if (!this.isConnected) {
+  if (!this.root.isConnected) {
     return [];
   }
   if (!(
-    this.serverCapabilities &&
-    this.serverCapabilities.completionProvider &&
-    this.serverCapabilities.completionProvider.triggerCharacters
+    this.root.serverCapabilities &&
+    this.root.serverCapabilities.completionProvider &&
+    this.root.serverCapabilities.completionProvider.triggerCharacters
   )) {
     return [];
   }
-  return this.serverCapabilities.completionProvider.triggerCharacters;
+  return this.root.serverCapabilities.completionProvider.triggerCharacters;
+}
+
+/**
+ * Asks the server to run one of its commands. Resolves with null when the server does not offer the command
+ */
+public executeCommand(command: string, args?: any[]): Promise<any> {
+  if (!this.root.isConnected || !this.root.isInitialized || !this.isCommandSupported(command)) {
+    return Promise.resolve(null);
+  }
+
+  return this.root.connection.sendRequest('workspace/executeCommand', {
+    command,
+    arguments: args,
+  } as lsProtocol.ExecuteCommandParams);
 }
 
 /**
    * The characters that trigger signature help automatically.
    */
 public getLanguageSignatureCharacters(): string[] {
-  if (!this.isConnected) {
+  if (!this.root.isConnected) {
     return [];
   }
   if (!(
-    this.serverCapabilities &&
-    this.serverCapabilities.signatureHelpProvider &&
-    this.serverCapabilities.signatureHelpProvider.triggerCharacters
+    this.root.serverCapabilities &&
+    this.root.serverCapabilities.signatureHelpProvider &&
+    this.root.serverCapabilities.signatureHelpProvider.triggerCharacters
   )) {
     return [];
   }
-  return this.serverCapabilities.signatureHelpProvider.triggerCharacters;
+  return this.root.serverCapabilities.signatureHelpProvider.triggerCharacters;
 }
 
 /**
    * Does the server support go to definition?
    */
 public isDefinitionSupported() {
-  return !!(this.serverCapabilities && this.serverCapabilities.definitionProvider);
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.definitionProvider);
 }
 
 /**
    * Does the server support go to type definition?
    */
 public isTypeDefinitionSupported() {
-  return !!(this.serverCapabilities && this.serverCapabilities.typeDefinitionProvider);
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.typeDefinitionProvider);
 }
 
 /**
    * Does the server support go to implementation?
    */
 public isImplementationSupported() {
-  return !!(this.serverCapabilities && this.serverCapabilities.implementationProvider);
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.implementationProvider);
 }
 
 /**
    * Does the server support find all references?
    */
 public isReferencesSupported() {
-  return !!(this.serverCapabilities && this.serverCapabilities.referencesProvider);
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.referencesProvider);
+}
+
+/**
+ * Does the server support code actions?
+ */
+public isCodeActionSupported() {
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.codeActionProvider);
+}
+
+public isDocumentFormattingSupported() {
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.documentFormattingProvider);
+}
+
+public isRangeFormattingSupported() {
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.documentRangeFormattingProvider);
+}
+
+public isFoldingRangeSupported() {
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.foldingRangeProvider);
+}
+
+public isRenameSupported() {
+  return !!(this.root.serverCapabilities && this.root.serverCapabilities.renameProvider);
+}
+
+public isCommandSupported(command: string) {
+  const provider = this.root.serverCapabilities && this.root.serverCapabilities.executeCommandProvider;
+  return !!provider && (provider.commands || []).indexOf(command) !== -1;
+}
+
+private listen(transport: IMessageTransport) {
+  transport.reader.onClose(() => {
+    this.handleTransportClose(transport);
+  });
+
+  transport.onReady(() => {
+    if (transport !== this.transport) {
+      return;
+    }
+    const recorder = this.documentInfo.recorder;
+    const channel = recorder ? createRecordingTransport(transport, recorder) : transport;
+    const connection = createMessageConnection(channel.reader, channel.writer, this.createLogger());
+
+    connection.onNotification('textDocument/publishDiagnostics', (
+      params: lsProtocol.PublishDiagnosticsParams,
+    ) => {
+      // Diagnostics for files that are not open are left to whoever listens on the connection itself
+      const document = this.documents[params.uri] || this;
+      document.emit('diagnostic', params);
+    });
+
+    connection.onNotification('window/showMessage', (params: lsProtocol.ShowMessageParams) => {
+      this.emit('logging', params);
+    });
+
+    connection.onNotification('window/logMessage', (params: lsProtocol.LogMessageParams) => {
+      this.emit('serverLog', params);
+    });
+
+    connection.onNotification('$/logTrace', (params: lsProtocol.LogTraceParams) => {
+      this.emit('trace', params);
+    });
+
+    connection.onNotification('telemetry/event', (data: any) => {
+      this.emit('telemetry', data);
+    });
+
+    connection.onRequest('client/registerCapability', (params: lsProtocol.RegistrationParams) => {
+      params.registrations.forEach((capabilityRegistration: lsProtocol.Registration) => {
+        this.serverCapabilities = registerServerCapability(this.serverCapabilities, capabilityRegistration);
+        this.registrations[capabilityRegistration.id] = capabilityRegistration;
+      });
+
+      this.emit('logging', params);
+    });
+
+    connection.onRequest('client/unregisterCapability', (params: lsProtocol.UnregistrationParams) => {
+      params.unregisterations.forEach((capabilityUnregistration: lsProtocol.Unregistration) => {
+        this.serverCapabilities = unregisterServerCapability(this.serverCapabilities, capabilityUnregistration);
+        delete this.registrations[capabilityUnregistration.id];
+      });
+
+      this.emit('logging', params);
+    });
+
+    connection.onRequest('workspace/diagnostic/refresh', () => {
+      Object.keys(this.documents).forEach((uri) => {
+        this.documents[uri].pullDiagnostics();
+      });
+      return null;
+    });
+
+    const fileSystem = this.documentInfo.virtualFileSystem;
+    if (fileSystem) {
+      connection.onRequest('workspace/xfiles', (params: IFilesParams) => {
+        return Promise.resolve(fileSystem.listFiles(params && params.base)).then((uris) => {
+          return uris.map((uri) => ({ uri } as lsProtocol.TextDocumentIdentifier));
+        });
+      });
+
+      connection.onRequest('textDocument/xcontent', (params: IContentParams) => {
+        return this.readFile(fileSystem, params.textDocument.uri);
+      });
+    }
+
+    connection.onRequest('workspace/workspaceFolders', () => {
+      return this.workspaceFolders.length ? this.workspaceFolders : null;
+    });
+
+    connection.onRequest('window/workDoneProgress/create', () => {
+      return null;
+    });
+
+    // Progress for tokens the server created. Partial results are handled by the request they belong to
+    connection.onUnhandledProgress((params: { token: lsProtocol.ProgressToken, value: any }) => {
+      const value = params.value;
+      if (value && (value.kind === 'begin' || value.kind === 'report' || value.kind === 'end')) {
+        this.broadcast('progress', value, params.token);
+      }
+    });
+
+    connection.onRequest('workspace/configuration', (params: lsProtocol.ConfigurationParams) => {
+      return params.items.map((item) => {
+        const value = this.settings.get(item.section, item.scopeUri);
+        return value === undefined ? null : value;
+      });
+    });
+
+    connection.onRequest('window/showMessageRequest', (params: lsProtocol.ShowMessageRequestParams) => {
+      return this.askListener<lsProtocol.MessageActionItem | null>('showMessageRequest', params, null);
+    });
+
+    connection.onRequest('workspace/applyEdit', (params: lsProtocol.ApplyWorkspaceEditParams) => {
+      return this.applyWorkspaceEdit(params);
+    });
+
+    connection.onError((e) => {
+      this.setConnected(false);
+      this.isInitialized = false;
+      this.emit('logging', e);
+    });
+
+    connection.onClose(() => {
+      this.setConnected(false);
+      this.isInitialized = false;
+    });
+
+    connection.listen();
+    this.setConnected(true);
+
+    this.connection = connection;
+    this.broadcast('connectionState', 'connected');
+    this.sendInitialize();
+  });
+}
+
+private handleTransportClose(transport: IMessageTransport) {
+  if (transport !== this.transport) {
+    return;
+  }
+  this.setConnected(false);
+  this.isInitialized = false;
+  // The next attempt gets a new transport and connection, and nothing that arrives late may reach the handlers
+  if (this.connection) {
+    this.connection.dispose();
+  }
+  transport.dispose();
+  this.broadcast('connectionState', 'disconnected');
+
+  const options = this.documentInfo.reconnect;
+  if (this.isClosing || !options || !this.transportFactory) {
+    return;
+  }
+  const {
+    maxAttempts = Infinity,
+    initialDelay = 1000,
+    maxDelay = 30000,
+    multiplier = 2,
+  } = options;
+  if (this.reconnectAttempts >= maxAttempts) {
+    this.emit('logging', `Gave up reconnecting after ${this.reconnectAttempts} attempts`);
+    return;
+  }
+
+  const delay = Math.min(initialDelay * Math.pow(multiplier, this.reconnectAttempts), maxDelay);
+  this.reconnectAttempts++;
+  this.reconnectTimer = window.setTimeout(() => {
+    this.reconnectTimer = null;
+    this.transport = this.transportFactory();
+    this.listen(this.transport);
+  }, delay);
+  this.broadcast('connectionState', 'reconnecting');
+}
+
+private cancelReconnect() {
+  if (this.reconnectTimer !== null) {
+    window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+}
+
+/**
+ * Connections that only set the typescript-language-server options keep working without a profile
+ */
+private getServerProfile() {
+  if (this.documentInfo.profile) {
+    return this.documentInfo.profile;
+  }
+  return this.documentInfo.tsserver ? typescriptServerProfile : defaultServerProfile;
+}
+
+/**
+ * Servers that do not want to know about changes to the workspace folders are not told. The folders
+ * are sent with the initialize request when the connection is not initialized yet
+ */
+private sendWorkspaceFoldersChange(event: lsProtocol.WorkspaceFoldersChangeEvent) {
+  if (!this.isConnected || !this.isInitialized) {
+    return;
+  }
+  const workspace = this.serverCapabilities.workspace;
+  const isSupported = !!(workspace && workspace.workspaceFolders && workspace.workspaceFolders.changeNotifications);
+  const isRegistered = Object.keys(this.registrations).some((id) => {
+    return this.registrations[id].method === 'workspace/didChangeWorkspaceFolders';
+  });
+  if (isSupported || isRegistered) {
+    this.connection.sendNotification('workspace/didChangeWorkspaceFolders', {
+      event,
+    } as lsProtocol.DidChangeWorkspaceFoldersParams);
+  }
+}
+
+/**
+ * The files that match the filters the server set for a file operation. None match when the server
+ * is not interested in the operation
+ */
+private getFileOperationFiles<T>(
+  operation: keyof lsProtocol.FileOperationOptions,
+  files: T[],
+  getUri: (file: T) => string,
+): T[] {
+  const root = this.root;
+  const workspace = root.serverCapabilities && root.serverCapabilities.workspace;
+  const options = workspace && workspace.fileOperations && workspace.fileOperations[operation];
+  if (!root.isConnected || !root.isInitialized || !options) {
+    return [];
+  }
+  return files.filter((file) => options.filters.some((filter) => matchFileOperationFilter(filter, getUri(file))));
+}
+
+/**
+ * Open documents are read from their editor, which can be ahead of the file system
+ */
+private readFile(fileSystem: IVirtualFileSystem, uri: string): Promise<lsProtocol.TextDocumentItem> {
+  const document = this.documents[uri];
+  if (document) {
+    return Promise.resolve({
+      uri,
+      languageId: document.documentInfo.languageId,
+      version: document.documentVersion,
+      text: document.documentInfo.documentText(),
+    });
+  }
+
+  return Promise.resolve(fileSystem.readFile(uri)).then((text) => {
+    if (typeof text !== 'string') {
+      throw new Error(`There is no file at ${uri}`);
+    }
+    return {
+      uri,
+      languageId: this.documentInfo.languageId,
+      version: 0,
+      text,
+    };
+  });
+}
+
+/**
+ * Every open document applies the changes to itself in its editor. Changes to other files and file
+ * operations are applied by one of them, which hands them to the host. Those go first, so that the
+ * documents are left alone when the host fails
+ */
+private applyWorkspaceEdit(params: lsProtocol.ApplyWorkspaceEditParams): Promise<lsProtocol.ApplyWorkspaceEditResult> {
+  const parts: Array<{ document: LspWsConnection; edit: lsProtocol.WorkspaceEdit }> = [];
+  let rest = params.edit;
+  Object.keys(this.documents).forEach((uri) => {
+    const document = this.documents[uri];
+    if (!rest || document.listenerCount('applyEdit') === 0) {
+      return;
+    }
+    const divided = divideWorkspaceEdit(rest, uri);
+    if (divided.own) {
+      parts.push({ document, edit: divided.own });
+    }
+    rest = divided.rest;
+  });
+
+  const noEditor: lsProtocol.ApplyWorkspaceEditResult = {
+    applied: false,
+    failureReason: 'There is no editor to apply the edit',
+  };
+  const applyRest = rest || !parts.length
+    ? this.askListener('applyEdit', Object.assign({}, params, { edit: rest || params.edit }), noEditor)
+    : Promise.resolve({ applied: true });
+  return applyRest.then((result) => {
+    return parts.reduce((previous, part) => previous.then((partResult) => {
+      if (!partResult.applied) {
+        return partResult;
+      }
+      const partParams = Object.assign({}, params, { edit: part.edit });
+      return this.askConnection(part.document, 'applyEdit', partParams, noEditor);
+    }), Promise.resolve(result));
+  });
+}
+
+/**
+ * Answers a request from the server with the help of whoever listens for the event. Only one of the
+ * documents is asked, so the user is not prompted once for every editor, and only the first answer counts
+ */
+private askListener<T>(event: string, params: any, fallback: T): Promise<T> {
+  const target = this.getAttachedConnections().filter((attached) => {
+    return attached.listenerCount(event) > 0;
+  })[0];
+  return this.askConnection(target, event, params, fallback);
+}
+
+private askConnection<T>(target: LspWsConnection | undefined, event: string, params: any, fallback: T): Promise<T> {
+  return new Promise<T>((resolve) => {
+    if (!target) {
+      resolve(fallback);
+      return;
+    }
+    let isAnswered = false;
+    target.emit(event, params, (answer: T) => {
+      if (!isAnswered) {
+        isAnswered = true;
+        resolve(answer || fallback);
+      }
+    });
+  });
+}
+
+/**
+ * Problems of the JSON-RPC connection itself are emitted as 'logging' instead of being written to the console
+ */
+private createLogger(): Logger {
+  const log = (message: string) => this.emit('logging', message);
+  return {
+    error: log,
+    warn: log,
+    info: log,
+    log,
+  };
+}
+
+/**
+ * The root connection and every document opened on it
+ */
+private getAttachedConnections(): LspWsConnection[] {
+  const attached = Object.keys(this.documents).map((uri) => this.documents[uri]);
+  return attached.indexOf(this) === -1 ? [this as LspWsConnection].concat(attached) : attached;
+}
+
+private setConnected(isConnected: boolean) {
+  this.getAttachedConnections().forEach((connection) => {
+    connection.isConnected = isConnected;
+  });
+}
+
+/**
+ * Emits an event that is about the whole connection on every document
+ */
+private broadcast(event: string, ...args: any[]) {
+  this.getAttachedConnections().forEach((connection) => {
+    connection.emit(event, ...args);
+  });
+}
+
+/**
+ * Sends a request with a partial result token. Partial results are passed to the callback as they
+ * arrive, and the promise resolves with all of them followed by the final result
+ */
+private sendPartialResultRequest<T>(
+  method: string,
+  params: lsProtocol.PartialResultParams,
+  onPartialResult?: (partialResult: T[]) => void,
+): Promise<T[] | null> {
+  const root = this.root;
+  const partialResultToken = `partial-result-${++root.partialResultTokens}`;
+  let received: T[] = [];
+  const progress = root.connection.onProgress(new ProgressType<T[]>(), partialResultToken, (partialResult) => {
+    received = received.concat(partialResult);
+    if (onPartialResult) {
+      onPartialResult(partialResult);
+    }
+  });
+
+  return root.connection.sendRequest(method, Object.assign({}, params, { partialResultToken }))
+    .then((result: T[] | null) => {
+    progress.dispose();
+    return received.length ? received.concat(result || []) : result;
+  }, (e) => {
+    progress.dispose();
+    throw e;
+  });
+}
+
+private sendDidOpen() {
+  const textDocumentMessage: lsProtocol.DidOpenTextDocumentParams = {
+    textDocument: {
+      uri: this.documentInfo.documentUri,
+      languageId: this.documentInfo.languageId,
+      text: this.documentInfo.documentText(),
+      version: this.documentVersion,
+    } as lsProtocol.TextDocumentItem,
+  };
+  this.pendingChanges = [];
+  // A server that was restarted does not know the previous result ids
+  this.diagnosticResultId = null;
+  this.pulledDiagnostics = [];
+  this.root.connection.sendNotification('textDocument/didOpen', textDocumentMessage);
+  this.sendChange();
+}
+
+/**
+ * Pulls diagnostics after the document changed. Failures do not concern the caller
+ */
+private pullDiagnostics() {
+  this.getDiagnostics().catch((e) => {
+    this.emit('logging', e);
+  });
+}
+
+private pullFoldingRanges() {
+  this.getFoldingRanges().catch((e) => {
+    this.emit('logging', e);
+  });
+}
+
+/**
+ * Cancels the request of the same feature that is still waiting for a response, if any
+ */
+private beginRequest(feature: string): CancellationToken {
+  const previous = this.inFlightRequests[feature];
+  if (previous) {
+    previous.cancel();
+    previous.dispose();
+  }
+  const source = new CancellationTokenSource();
+  this.inFlightRequests[feature] = source;
+  return source.token;
+}
+
+private endRequest(feature: string, token: CancellationToken) {
+  const source = this.inFlightRequests[feature];
+  if (source && source.token === token) {
+    source.dispose();
+    delete this.inFlightRequests[feature];
+  }
+}
+
+/**
+ * A request that was cancelled because it was superseded resolves to null, other errors are passed on
+ */
+private handleRequestError(feature: string, token: CancellationToken, error: any): null {
+  this.endRequest(feature, token);
+  if (token.isCancellationRequested) {
+    return null;
+  }
+  throw error;
+}
+
+/**
+ * Responses to requests that were superseded, or that were computed for an older version
+ * of the document, should be dropped
+ */
+private isStaleResponse(feature: string, token: CancellationToken, version: number): boolean {
+  this.endRequest(feature, token);
+  return token.isCancellationRequested || version !== this.documentVersion;
+}
+
+/**
+ * How the server wants document changes to be sent. Servers that do not say are sent the full text
+ */
+private getTextDocumentSyncKind(): lsProtocol.TextDocumentSyncKind {
+  const change = getTextDocumentSyncOptions(this.root.serverCapabilities || {}).change;
+  return typeof change === 'number' ? change : lsProtocol.TextDocumentSyncKind.Full;
 }
 }
 
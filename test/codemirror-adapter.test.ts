@@ -1,4 +1,7 @@
 import * as CodeMirror from 'codemirror';
+import 'codemirror/addon/fold/foldcode';
+import 'codemirror/addon/fold/foldgutter';
+import 'codemirror/addon/fold/indent-fold';
 import 'codemirror/addon/hint/show-hint';
 import 'codemirror/lib/codemirror.css';
 import * as expect from 'expect';
@@ -43,6 +46,788 @@ describe('CodeMirror adapter', () => {
     expect(connection.sendChange.callCount).toEqual(1);
   });
 
+  it('queues every change before the debounced textDocument/didChange', () => {
+    const connection = new MockConnection();
+    adapter = new CodeMirrorAdapter(connection, {
+      debounceSuggestionsWhileTyping: 10,
+    }, editor);
+
+    editor.getDoc().replaceRange('ab', { line: 0, ch: 0 });
+    editor.getDoc().replaceRange('c', { line: 0, ch: 1 }, { line: 0, ch: 2 });
+
+    expect(connection.queueChange.callCount).toEqual(2);
+    expect(connection.sendChange.callCount).toEqual(0);
+    expect(connection.queueChange.secondCall.args[0]).toEqual({
+      range: {
+        start: { line: 0, character: 1 },
+        end: { line: 0, character: 2 },
+      },
+      text: 'c',
+    });
+
+    clock.tick(defaults.debounceSuggestionsWhileTyping);
+
+    expect(connection.sendChange.callCount).toEqual(1);
+  });
+
+  it('closes its document but keeps the connection when the adapter is removed', () => {
+    const connection = new MockConnection();
+    adapter = new CodeMirrorAdapter(connection, {}, editor);
+
+    adapter.remove();
+
+    expect(connection.closeDocument.callCount).toEqual(1);
+    expect(connection.dispose.callCount).toEqual(0);
+  });
+
+  it('applies the edits from willSaveWaitUntil before saving', (done) => {
+    const connection = new MockConnection();
+    connection.notifySave.resolves([{
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+      newText: 'a',
+    }, {
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+      newText: 'b',
+    }, {
+      range: { start: { line: 0, character: 3 }, end: { line: 0, character: 5 } },
+      newText: 'e',
+    }]);
+    adapter = new CodeMirrorAdapter(connection, {}, editor);
+    editor.setValue('cd xx');
+
+    adapter.notifySave().then(() => {
+      expect(editor.getValue()).toEqual('abcd e');
+      expect(connection.sendChange.callCount).toEqual(2);
+      done();
+    });
+  });
+
+  describe('save participants', () => {
+    let connection: MockConnection;
+
+    beforeEach(() => {
+      connection = new MockConnection();
+      connection.getDocumentUri.returns('file:///path/to/file.ts');
+      adapter = new CodeMirrorAdapter(connection, {
+        codeActionsOnSave: {
+          'source.organizeImports': true,
+          'source.fixAll': true,
+          'source.removeUnused': false,
+        },
+      }, editor);
+      editor.setValue('b\na');
+    });
+
+    it('applies the code actions of every configured kind in order', (done) => {
+      connection.getCodeActions.onFirstCall().resolves([{
+        title: 'Organize imports',
+        kind: 'source.organizeImports',
+        edit: {
+          changes: {
+            'file:///path/to/file.ts': [{
+              range: { start: { line: 0, character: 0 }, end: { line: 1, character: 1 } },
+              newText: 'a\nb',
+            }],
+          },
+        },
+      }]);
+      connection.getDocumentVersion.returns(1);
+      connection.getCodeActions.onSecondCall().resolves([{
+        title: 'Fix all',
+        kind: 'source.fixAll.eslint',
+      }]);
+      connection.resolveCodeAction.resolves({
+        title: 'Fix all',
+        kind: 'source.fixAll.eslint',
+        edit: {
+          documentChanges: [{
+            textDocument: { uri: 'file:///path/to/file.ts', version: 1 },
+            edits: [{
+              range: { start: { line: 1, character: 1 }, end: { line: 1, character: 1 } },
+              newText: ';',
+            }],
+          }],
+        },
+      });
+
+      adapter.runSaveParticipants().then((result) => {
+        expect(connection.getCodeActions.callCount).toEqual(2);
+        expect(connection.getCodeActions.firstCall.args[1].only).toEqual(['source.organizeImports']);
+        expect(result).toEqual({ applied: ['Organize imports', 'Fix all'], timedOut: [], failed: [] });
+        expect(editor.getValue()).toEqual('a\nb;');
+        done();
+      });
+    });
+
+    it('reports the kinds that did not finish in time', (done) => {
+      connection.getCodeActions.returns(new Promise(() => {}));
+
+      adapter.runSaveParticipants().then((result) => {
+        expect(result).toEqual({ applied: [], timedOut: ['source.organizeImports', 'source.fixAll'], failed: [] });
+        done();
+      });
+      clock.tick(defaults.codeActionsOnSaveTimeout);
+    });
+
+    it('does not report actions with edits that were not applied, and goes on after errors', (done) => {
+      connection.getCodeActions.onFirstCall().rejects(new Error('Request failed'));
+      connection.getCodeActions.onSecondCall().resolves([{
+        title: 'Fix all',
+        kind: 'source.fixAll',
+        edit: {
+          changes: {
+            'file:///path/to/other.ts': [{
+              range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+              newText: ';',
+            }],
+          },
+        },
+      }]);
+
+      adapter.runSaveParticipants().then((result) => {
+        expect(result).toEqual({ applied: [], timedOut: [], failed: ['source.organizeImports'] });
+        expect(editor.getValue()).toEqual('b\na');
+        done();
+      });
+    });
+  });
+
+  it('shows the progress the server reports when enabled', () => {
+    const connection = new MockConnection();
+    adapter = new CodeMirrorAdapter(connection, {
+      enableProgressIndicator: true,
+    }, editor);
+
+    connection.listeners.progress.forEach((listener) => listener({
+      kind: 'begin',
+      title: 'Loading project',
+    }, 'token'));
+    connection.listeners.progress.forEach((listener) => listener({
+      kind: 'report',
+      message: 'src/index.ts',
+      percentage: 50,
+    }, 'token'));
+
+    const indicator = editor.getWrapperElement().querySelector('.CodeMirror-lsp-progress');
+    expect(indicator.textContent).toEqual('Loading project: src/index.ts (50%)');
+
+    connection.listeners.progress.forEach((listener) => listener({ kind: 'end' }, 'token'));
+
+    expect(editor.getWrapperElement().querySelectorAll('.CodeMirror-lsp-progress').length).toEqual(0);
+  });
+
+  describe('message requests', () => {
+    const params = {
+      type: 3,
+      message: 'Install missing typings?',
+      actions: [{ title: 'Install' }, { title: 'Not now' }],
+    };
+
+    it('shows a notification and responds with the chosen action', () => {
+      const connection = new MockConnection();
+      const respond = sinon.stub();
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+
+      connection.listeners.showMessageRequest.forEach((listener) => listener(params, respond));
+
+      const buttons = editor.getWrapperElement().querySelectorAll('.CodeMirror-lsp-notification button');
+      expect(buttons.length).toEqual(3);
+      expect(buttons[0].textContent).toEqual('Install');
+
+      buttons[0].dispatchEvent(new MouseEvent('click'));
+
+      expect(respond.calledOnceWith({ title: 'Install' })).toEqual(true);
+      expect(document.querySelectorAll('.CodeMirror-lsp-notification').length).toEqual(0);
+    });
+
+    it('dismisses the notification when the adapter is removed', () => {
+      const connection = new MockConnection();
+      const respond = sinon.stub();
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+
+      connection.listeners.showMessageRequest.forEach((listener) => listener(params, respond));
+      adapter.remove();
+
+      expect(respond.calledOnceWith(null)).toEqual(true);
+    });
+
+    it('lets the host show the message request instead', () => {
+      const connection = new MockConnection();
+      const respond = sinon.stub();
+      const messageRequestProvider = sinon.stub();
+      adapter = new CodeMirrorAdapter(connection, { messageRequestProvider }, editor);
+
+      connection.listeners.showMessageRequest.forEach((listener) => listener(params, respond));
+
+      expect(messageRequestProvider.calledOnceWith(params, respond)).toEqual(true);
+      expect(document.querySelectorAll('.CodeMirror-lsp-notification').length).toEqual(0);
+    });
+  });
+
+  describe('commands', () => {
+    it('runs client-side commands with the registered handler', () => {
+      const connection = new MockConnection();
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      const handler = sinon.stub();
+      adapter.commands.register('editor.action.rename', handler);
+
+      return adapter.executeCommand({ title: 'Rename', command: 'editor.action.rename', arguments: [1] }).then(() => {
+        expect(handler.calledOnceWith(1)).toEqual(true);
+        expect(connection.executeCommand.callCount).toEqual(0);
+      });
+    });
+
+    it('runs other commands on the server', () => {
+      const connection = new MockConnection();
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+
+      return adapter.executeCommand({ title: 'Organize', command: '_typescript.organizeImports', arguments: ['a'] })
+        .then(() => {
+          expect(connection.executeCommand.calledOnceWith('_typescript.organizeImports', ['a'])).toEqual(true);
+        });
+    });
+
+    it('triggers suggestions for editor.action.triggerSuggest', () => {
+      const connection = new MockConnection();
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+
+      return adapter.executeCommand({ title: 'Suggest', command: 'editor.action.triggerSuggest' }).then(() => {
+        expect(connection.getCompletion.callCount).toEqual(1);
+      });
+    });
+  });
+
+  describe('workspace edits', () => {
+    const uri = 'file:///path/to/file.ts';
+    const otherUri = 'file:///path/to/other.ts';
+
+    it('applies the edits for the document as one undo step and hands the rest to the host', (done) => {
+      const connection = new MockConnection();
+      connection.getDocumentUri.returns(uri);
+      connection.getDocumentVersion.returns(3);
+      const workspaceEditProvider = sinon.stub().resolves(true);
+      adapter = new CodeMirrorAdapter(connection, { workspaceEditProvider }, editor);
+      editor.setValue('let a = 1;');
+      editor.getDoc().clearHistory();
+
+      const otherEdit = {
+        textDocument: { uri: otherUri, version: 1 },
+        edits: [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, newText: 'b' }],
+      };
+      const edit = {
+        documentChanges: [{
+          textDocument: { uri, version: 3 },
+          edits: [
+            { range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'b' },
+            { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } }, newText: 'const' },
+          ],
+        }, otherEdit],
+      };
+
+      connection.listeners.applyEdit.forEach((listener) => listener({ edit }, (result: any) => {
+        expect(result).toEqual({ applied: true });
+        expect(editor.getValue()).toEqual('const b = 1;');
+        expect(workspaceEditProvider.firstCall.args[0]).toEqual({ documentChanges: [otherEdit] });
+        expect(connection.sendChange.callCount).toEqual(1);
+
+        editor.getDoc().undo();
+        expect(editor.getValue()).toEqual('let a = 1;');
+        done();
+      }));
+    });
+
+    it('does not apply edits that were computed for another version of the document', (done) => {
+      const connection = new MockConnection();
+      connection.getDocumentUri.returns(uri);
+      connection.getDocumentVersion.returns(4);
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let a = 1;');
+
+      const edit = {
+        documentChanges: [{
+          textDocument: { uri, version: 3 },
+          edits: [{ range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'b' }],
+        }],
+      };
+
+      connection.listeners.applyEdit.forEach((listener) => listener({ edit }, (result: any) => {
+        expect(result.applied).toEqual(false);
+        expect(editor.getValue()).toEqual('let a = 1;');
+        done();
+      }));
+    });
+
+    it('does not apply edits while changes to the document have not been sent', (done) => {
+      const connection = new MockConnection();
+      connection.getDocumentUri.returns(uri);
+      connection.hasQueuedChanges.returns(true);
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let a = 1;');
+
+      const edit = {
+        changes: {
+          [uri]: [{ range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'b' }],
+        },
+      };
+
+      connection.listeners.applyEdit.forEach((listener) => listener({ edit }, (result: any) => {
+        expect(result.applied).toEqual(false);
+        expect(editor.getValue()).toEqual('let a = 1;');
+        done();
+      }));
+    });
+
+    it('does not apply anything when edits for other documents cannot be applied', (done) => {
+      const connection = new MockConnection();
+      connection.getDocumentUri.returns(uri);
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let a = 1;');
+
+      const edit = {
+        changes: {
+          [uri]: [{ range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'b' }],
+          [otherUri]: [{ range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, newText: 'b' }],
+        },
+      };
+
+      connection.listeners.applyEdit.forEach((listener) => listener({ edit }, (result: any) => {
+        expect(result.applied).toEqual(false);
+        expect(result.failureReason).toBeTruthy();
+        expect(editor.getValue()).toEqual('let a = 1;');
+        done();
+      }));
+    });
+  });
+
+  describe('code actions', () => {
+    let connection: MockConnection;
+    const diagnostic = {
+      message: 'Cannot find name',
+      range: {
+        start: { line: 1, character: 0 },
+        end: { line: 1, character: 3 },
+      },
+    };
+
+    beforeEach(() => {
+      connection = new MockConnection();
+      connection.isCodeActionSupported.returns(true);
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let a;\nfoo();');
+      connection.dispatchEvent(new MessageEvent('diagnostic', {
+        data: { uri: 'file:///path/to/file.ts', diagnostics: [diagnostic] },
+      }));
+    });
+
+    it('shows a lightbulb on a line with code actions', () => {
+      connection.getCodeActions.resolves([{
+        title: 'Add import',
+        kind: 'quickfix',
+        command: { title: 'Add import', command: 'addImport' },
+      }]);
+      editor.getDoc().setCursor({ line: 1, ch: 2 });
+
+      return adapter.handleCursorActivity().then(() => {
+        const [range, context] = connection.getCodeActions.lastCall.args;
+        expect(range).toEqual({ start: { line: 1, character: 0 }, end: { line: 1, character: 6 } });
+        expect(context.diagnostics).toEqual([diagnostic]);
+        expect(editor.lineInfo(1).gutterMarkers['CodeMirror-lsp-actions']).toBeTruthy();
+      });
+    });
+
+    it('removes the lightbulb when there are no code actions', () => {
+      connection.getCodeActions.resolves([{ title: 'Add import', command: 'addImport' }]);
+      editor.getDoc().setCursor({ line: 1, ch: 2 });
+
+      return adapter.handleCursorActivity().then(() => {
+        connection.getCodeActions.resolves([]);
+        editor.getDoc().setCursor({ line: 0, ch: 0 });
+        return adapter.handleCursorActivity();
+      }).then(() => {
+        const gutterMarkers = editor.lineInfo(1).gutterMarkers;
+        expect(gutterMarkers && gutterMarkers['CodeMirror-lsp-actions']).toBeFalsy();
+        const firstLineMarkers = editor.lineInfo(0).gutterMarkers;
+        expect(firstLineMarkers && firstLineMarkers['CodeMirror-lsp-actions']).toBeFalsy();
+      });
+    });
+
+    it('removes the lightbulb when the server fails to provide code actions', () => {
+      connection.getCodeActions.resolves([{ title: 'Add import', command: 'addImport' }]);
+      editor.getDoc().setCursor({ line: 1, ch: 2 });
+
+      return adapter.handleCursorActivity().then(() => {
+        connection.getCodeActions.rejects(new Error('Request failed'));
+        return adapter.handleCursorActivity();
+      }).then(() => {
+        const gutterMarkers = editor.lineInfo(1).gutterMarkers;
+        expect(gutterMarkers && gutterMarkers['CodeMirror-lsp-actions']).toBeFalsy();
+      });
+    });
+
+    it('clears the lightbulb and the menu when the menu cannot get code actions', () => {
+      connection.getCodeActions.resolves([{ title: 'Add import', command: 'addImport' }]);
+      editor.getDoc().setCursor({ line: 1, ch: 2 });
+
+      return adapter.handleCursorActivity().then(() => {
+        return adapter.handleShowCodeActions();
+      }).then(() => {
+        expect(document.querySelectorAll('.CodeMirror-lsp-codeactions').length).toEqual(1);
+        connection.getCodeActions.rejects(new Error('Request failed'));
+        return adapter.handleShowCodeActions();
+      }).then(() => {
+        const gutterMarkers = editor.lineInfo(1).gutterMarkers;
+        expect(gutterMarkers && gutterMarkers['CodeMirror-lsp-actions']).toBeFalsy();
+        expect(document.querySelectorAll('.CodeMirror-lsp-codeactions').length).toEqual(0);
+      });
+    });
+
+    it('runs the action chosen with the keyboard from the quick fix menu', () => {
+      connection.getCodeActions.resolves([
+        { title: 'Add import', command: 'addImport' },
+        { title: 'Remove unused', disabled: { reason: 'Nothing is unused' }, edit: { changes: {} } },
+        { title: 'Declare foo', command: 'declare', arguments: ['foo'] },
+      ]);
+
+      return adapter.handleShowCodeActions().then(() => {
+        const items = document.querySelectorAll('.CodeMirror-lsp-codeactions > div');
+        expect(Array.prototype.map.call(items, (item: HTMLElement) => item.textContent))
+          .toEqual(['Add import', 'Declare foo']);
+
+        const menu = document.querySelector('.CodeMirror-lsp-tooltip');
+        menu.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+        menu.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+
+        expect(connection.executeCommand.calledOnceWith('declare', ['foo'])).toEqual(true);
+        expect(document.querySelectorAll('.CodeMirror-lsp-tooltip').length).toEqual(0);
+      });
+    });
+
+    it('resolves the edit of the chosen action before applying it', () => {
+      connection.getDocumentUri.returns('file:///path/to/file.ts');
+      connection.getCodeActions.resolves([{ title: 'Declare foo', kind: 'quickfix', data: 1 }]);
+      connection.resolveCodeAction.resolves({
+        title: 'Declare foo',
+        edit: {
+          changes: {
+            'file:///path/to/file.ts': [{
+              range: { start: { line: 1, character: 0 }, end: { line: 1, character: 0 } },
+              newText: 'declare function foo(): void;\n',
+            }],
+          },
+        },
+      });
+
+      return adapter.handleShowCodeActions().then(() => new Promise<void>((resolve) => {
+        // The document is synced once the edit is applied
+        connection.sendChange.callsFake(() => resolve());
+        document.querySelector('.CodeMirror-lsp-codeactions > div').dispatchEvent(new MouseEvent('click'));
+      })).then(() => {
+        expect(connection.resolveCodeAction.callCount).toEqual(1);
+        expect(editor.getValue()).toEqual('let a;\ndeclare function foo(): void;\nfoo();');
+      });
+    });
+  });
+
+  describe('rename', () => {
+    const uri = 'file:///path/to/file.ts';
+    const otherUri = 'file:///path/to/other.ts';
+    let connection: MockConnection;
+
+    beforeEach(() => {
+      connection = new MockConnection();
+      connection.getDocumentUri.returns(uri);
+      connection.isRenameSupported.returns(true);
+    });
+
+    function keydown(key: string) {
+      editor.getWrapperElement().querySelector('.CodeMirror-lsp-rename')
+        .dispatchEvent(new KeyboardEvent('keydown', { key }));
+    }
+
+    it('renames the symbol in the document as one undo step and hands other documents to the host', () => {
+      const workspaceEditProvider = sinon.stub().resolves(true);
+      adapter = new CodeMirrorAdapter(connection, { workspaceEditProvider }, editor);
+      editor.setValue('let a = a + 1;');
+      editor.getDoc().clearHistory();
+      editor.getDoc().setCursor({ line: 0, ch: 9 });
+      connection.prepareRename.resolves({
+        range: { start: { line: 0, character: 8 }, end: { line: 0, character: 9 } },
+        placeholder: 'a',
+      });
+      const otherEdits = [{
+        range: { start: { line: 2, character: 0 }, end: { line: 2, character: 1 } },
+        newText: 'b',
+      }];
+      connection.rename.resolves({
+        changes: {
+          [uri]: [
+            { range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'b' },
+            { range: { start: { line: 0, character: 8 }, end: { line: 0, character: 9 } }, newText: 'b' },
+          ],
+          [otherUri]: otherEdits,
+        },
+      });
+
+      return adapter.handleRename().then(() => new Promise<void>((resolve) => {
+        expect(connection.sendChange.calledBefore(connection.prepareRename)).toEqual(true);
+        const input = editor.getWrapperElement().querySelector('.CodeMirror-lsp-rename') as HTMLInputElement;
+        expect(input.value).toEqual('a');
+        input.value = 'b';
+        // The changes are sent before the rename, and the document is synced again once the edit is applied
+        connection.sendChange.resetHistory();
+        connection.sendChange.onSecondCall().callsFake(() => resolve());
+        keydown('Enter');
+      })).then(() => {
+        expect(connection.sendChange.firstCall.calledBefore(connection.rename.firstCall)).toEqual(true);
+        expect(connection.rename.calledOnceWith({ line: 0, ch: 9 }, 'b')).toEqual(true);
+        expect(workspaceEditProvider.firstCall.args[0]).toEqual({ changes: { [otherUri]: otherEdits } });
+        expect(editor.getValue()).toEqual('let b = b + 1;');
+        expect(editor.getWrapperElement().querySelectorAll('.CodeMirror-lsp-rename').length).toEqual(0);
+
+        editor.getDoc().undo();
+        expect(editor.getValue()).toEqual('let a = a + 1;');
+      });
+    });
+
+    it('uses the word at the cursor when the server leaves it to the editor', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let count = 1;');
+      editor.getDoc().setCursor({ line: 0, ch: 6 });
+      connection.prepareRename.resolves({ defaultBehavior: true });
+
+      return adapter.handleRename().then(() => {
+        const input = editor.getWrapperElement().querySelector('.CodeMirror-lsp-rename') as HTMLInputElement;
+        expect(input.value).toEqual('count');
+      });
+    });
+
+    it('does not rename anything when cancelled with Escape', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let a = 1;');
+      editor.getDoc().setCursor({ line: 0, ch: 4 });
+      connection.prepareRename.resolves({ start: { line: 0, character: 4 }, end: { line: 0, character: 5 } });
+
+      return adapter.handleRename().then(() => {
+        keydown('Escape');
+
+        expect(editor.getWrapperElement().querySelectorAll('.CodeMirror-lsp-rename').length).toEqual(0);
+        expect(connection.rename.callCount).toEqual(0);
+      });
+    });
+
+    it('tells the user when the symbol cannot be renamed', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let a = 1;');
+      editor.getDoc().setCursor({ line: 0, ch: 1 });
+      connection.prepareRename.rejects(new Error('You cannot rename this element.'));
+
+      return adapter.handleRename().then(() => {
+        const message = document.querySelector('.CodeMirror-lsp-message');
+        expect(message.textContent).toEqual('You cannot rename this element.');
+        expect(editor.getWrapperElement().querySelectorAll('.CodeMirror-lsp-rename').length).toEqual(0);
+      });
+    });
+  });
+
+  describe('formatting', () => {
+    let connection: MockConnection;
+    const edits = [
+      { range: { start: { line: 0, character: 3 }, end: { line: 0, character: 5 } }, newText: ' ' },
+      { range: { start: { line: 0, character: 6 }, end: { line: 0, character: 6 } }, newText: ' ' },
+    ];
+
+    beforeEach(() => {
+      connection = new MockConnection();
+      connection.isDocumentFormattingSupported.returns(true);
+      connection.isRangeFormattingSupported.returns(true);
+    });
+
+    it('formats the document as one undo step with the indentation of the editor', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setOption('tabSize', 2);
+      editor.setOption('indentWithTabs', true);
+      editor.setValue('let  a=1;');
+      editor.getDoc().clearHistory();
+      connection.formatDocument.resolves(edits);
+
+      return adapter.handleFormatDocument().then(() => {
+        expect(connection.formatDocument.firstCall.args[0]).toEqual({ tabSize: 2, insertSpaces: false });
+        expect(editor.getValue()).toEqual('let a =1;');
+
+        editor.getDoc().undo();
+        expect(editor.getValue()).toEqual('let  a=1;');
+      });
+    });
+
+    it('does not apply the edits when the document changed in the meantime', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.setValue('let  a=1;');
+      let respond: (edits: any) => void;
+      connection.formatDocument.returns(new Promise((resolve) => respond = resolve));
+
+      const formatting = adapter.handleFormatDocument();
+      editor.getDoc().replaceRange('b', { line: 0, ch: 9 });
+      respond(edits);
+
+      return formatting.then(() => {
+        expect(editor.getValue()).toEqual('let  a=1;b');
+      });
+    });
+
+    it('formats on the characters the server asks for', () => {
+      connection.getFormatOnTypeCharacters.returns([';']);
+      adapter = new CodeMirrorAdapter(connection, { formatOnType: true }, editor);
+      editor.setValue('let  a=1');
+
+      editor.getDoc().replaceRange(';', { line: 0, ch: 8 }, undefined, '+input');
+      clock.tick(defaults.debounceSuggestionsWhileTyping);
+
+      expect(connection.formatOnType.callCount).toEqual(1);
+      const [position, ch] = connection.formatOnType.firstCall.args;
+      expect(position).toEqual({ line: 0, ch: 9 });
+      expect(ch).toEqual(';');
+    });
+
+    it('formats after a trigger character that was followed by more typing', () => {
+      connection.getFormatOnTypeCharacters.returns([';']);
+      adapter = new CodeMirrorAdapter(connection, { formatOnType: true }, editor);
+      editor.setValue('let  a=1');
+
+      editor.getDoc().replaceRange(';', { line: 0, ch: 8 }, undefined, '+input');
+      editor.getDoc().replaceRange('b', { line: 0, ch: 0 }, undefined, '+input');
+      editor.getDoc().replaceRange('c', { line: 0, ch: 10 }, undefined, '+input');
+      clock.tick(defaults.debounceSuggestionsWhileTyping);
+
+      expect(connection.formatOnType.callCount).toEqual(1);
+      const [position, ch] = connection.formatOnType.firstCall.args;
+      expect(position).toEqual({ line: 0, ch: 10 });
+      expect(ch).toEqual(';');
+    });
+
+    it('formats pasted text', () => {
+      adapter = new CodeMirrorAdapter(connection, { formatOnPaste: true }, editor);
+      editor.setValue('let a = 1;');
+
+      editor.getDoc().replaceRange('\nlet  b=2;', { line: 0, ch: 10 }, undefined, 'paste');
+      clock.tick(defaults.debounceSuggestionsWhileTyping);
+
+      expect(connection.formatRange.callCount).toEqual(1);
+      expect(connection.formatRange.firstCall.args[0]).toEqual({
+        start: { line: 0, character: 10 },
+        end: { line: 1, character: 9 },
+      });
+      expect(connection.formatOnType.callCount).toEqual(0);
+    });
+  });
+
+  describe('folding', () => {
+    let connection: MockConnection;
+    const ranges = [
+      { startLine: 0, endLine: 2, kind: 'comment' },
+      { startLine: 3, endLine: 6, collapsedText: '{…}' },
+      { startLine: 3, endLine: 5 },
+    ];
+
+    function sendFoldingRanges(foldingRanges: any[]) {
+      connection.listeners.foldingRanges.forEach((listener) => listener(foldingRanges));
+    }
+
+    function getFoldMarks() {
+      const getLine = (marker: CodeMirror.TextMarker) => (marker.find() as CodeMirror.MarkerRange).from.line;
+      return editor.getDoc().getAllMarks().sort((a, b) => getLine(a) - getLine(b));
+    }
+
+    function getFolds() {
+      return getFoldMarks()
+        .map((marker) => marker.find() as CodeMirror.MarkerRange)
+        .map(({ from, to }) => ({ from: { line: from.line, ch: from.ch }, to: { line: to.line, ch: to.ch } }));
+    }
+
+    beforeEach(() => {
+      connection = new MockConnection();
+      editor.setOption('gutters', ['CodeMirror-foldgutter']);
+      editor.setValue('/**\n * a\n */\nfunction a() {\n  if (b) {\n    c();\n  }\n}');
+    });
+
+    it('folds the outermost range from the server and shows its collapsed text or kind', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      sendFoldingRanges(ranges);
+
+      editor.foldCode(3);
+      editor.foldCode(0);
+
+      expect(getFolds()).toEqual([
+        { from: { line: 0, ch: 3 }, to: { line: 2, ch: 3 } },
+        { from: { line: 3, ch: 14 }, to: { line: 6, ch: 3 } },
+      ]);
+      const widgets = getFoldMarks().map((marker) => (marker as any).replacedWith as HTMLElement);
+      expect(widgets.map((widget) => widget.textContent)).toEqual([
+        '\u2194 comment',
+        '{…}',
+      ]);
+    });
+
+    it('folds by indentation until the server sends ranges, or with the indentation strategy', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      editor.foldCode(4);
+      expect(getFolds()).toEqual([{ from: { line: 4, ch: 10 }, to: { line: 5, ch: 8 } }]);
+      editor.getDoc().getAllMarks().forEach((marker) => marker.clear());
+
+      sendFoldingRanges(ranges);
+      editor.foldCode(4);
+      expect(getFolds()).toEqual([]);
+
+      adapter.updateOptions({ foldingStrategy: 'indentation' });
+      expect(connection.listeners.foldingRanges).toEqual([]);
+      editor.foldCode(4);
+      expect(getFolds()).toEqual([{ from: { line: 4, ch: 10 }, to: { line: 5, ch: 8 } }]);
+    });
+
+    it('shows the fold controls when the mouse is over the gutter or always', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      sendFoldingRanges(ranges);
+      const getMarkers = () => editor.getWrapperElement().querySelectorAll('.CodeMirror-foldgutter-open');
+
+      expect(getMarkers().length).toEqual(2);
+      expect(getMarkers()[0].classList.contains('CodeMirror-lsp-fold-mouseover')).toBe(true);
+      getMarkers()[0].dispatchEvent(new MouseEvent('mousemove', { bubbles: true }));
+      expect(editor.getWrapperElement().classList.contains('CodeMirror-lsp-gutter-hover')).toBe(true);
+      editor.getWrapperElement().querySelector('.CodeMirror-line').dispatchEvent(
+        new MouseEvent('mousemove', { bubbles: true }),
+      );
+      expect(editor.getWrapperElement().classList.contains('CodeMirror-lsp-gutter-hover')).toBe(false);
+
+      adapter.updateOptions({ showFoldingControls: 'always' });
+      expect(getMarkers().length).toEqual(2);
+      expect(getMarkers()[0].classList.contains('CodeMirror-lsp-fold-mouseover')).toBe(false);
+
+      adapter.updateOptions({ folding: false });
+      expect(getMarkers().length).toEqual(0);
+    });
+
+    it('only replaces the fold options of an editor with the fold gutter while folding is enabled', () => {
+      const foldGutter = { indicatorOpen: 'host-fold-open' };
+      editor.setOption('foldGutter', foldGutter);
+      editor.setOption('gutters', ['CodeMirror-lsp']);
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+      expect(editor.getOption('foldGutter')).toBe(foldGutter);
+      expect(connection.getFoldingRanges.callCount).toEqual(0);
+
+      editor.setOption('gutters', ['CodeMirror-lsp', 'CodeMirror-foldgutter']);
+      adapter.updateOptions({ folding: false });
+      expect(editor.getOption('foldGutter')).toBe(foldGutter);
+      expect(connection.getFoldingRanges.callCount).toEqual(0);
+
+      adapter.updateOptions({ folding: true });
+      expect(editor.getOption('foldGutter')).not.toBe(foldGutter);
+      expect(connection.getFoldingRanges.callCount).toEqual(1);
+
+      adapter.remove();
+      expect(editor.getOption('foldGutter')).toBe(foldGutter);
+      expect(connection.listeners.foldingRanges).toEqual([]);
+    });
+  });
+
   describe('hover requests', () => {
     let connection: MockConnection;
 
@@ -119,6 +904,18 @@ describe('CodeMirror adapter', () => {
       expect(document.querySelectorAll('.CodeMirror-hint').length).toEqual(2);
       expect(document.querySelectorAll('.CodeMirror-hint')[0].textContent).toEqual('length');
     });
+
+    it('ignores completion results for a position the cursor has left', () => {
+      editor.getDoc().replaceSelection('a.');
+      clock.tick(defaults.debounceSuggestionsWhileTyping);
+      editor.getDoc().setCursor({ line: 0, ch: 0 });
+
+      connection.listeners.completion.forEach((listener) => listener([{
+        label: 'length',
+      }], { line: 0, ch: 2 }));
+
+      expect(document.querySelectorAll('.CodeMirror-hint').length).toEqual(0);
+    });
   });
 
   describe('signature help', () => {
@@ -208,6 +1005,27 @@ describe('CodeMirror adapter', () => {
 
       expect(editor.getDoc().getAllMarks().length).toEqual(1);
     });
+
+    it('clears diagnostics when the connection drops', () => {
+      connection.dispatchEvent(new MessageEvent('diagnostic', {
+        data: {
+          uri: 'file:///path/to/file.css',
+          diagnostics: [{
+            message: 'Do not use empty rulesets',
+            severity: 2,
+            range: {
+              start: { line: 0, character: 0 },
+              end: { line: 0, character: 7 },
+            },
+          }],
+        },
+      }));
+      connection.dispatchEvent(new MessageEvent('connectionState', {
+        data: 'disconnected',
+      }));
+
+      expect(editor.getDoc().getAllMarks().length).toEqual(0);
+    });
   });
 
   describe('right click menu', () => {
@@ -277,4 +1095,90 @@ describe('CodeMirror adapter', () => {
       expect(options.length).toEqual(2);
     });
   });
+
+  describe('refactor menu', () => {
+    let connection: MockConnection;
+
+    beforeEach(() => {
+      connection = new MockConnection();
+      connection.isDefinitionSupported.returns(true);
+      connection.isCodeActionSupported.returns(true);
+      connection.getCodeActions.resolves([
+        { title: 'Inline variable', kind: 'refactor.inline', command: { title: 'Inline', command: 'inline' } },
+        {
+          title: 'Extract function',
+          kind: 'refactor.extract.function',
+          command: { title: 'Extract', command: 'extract' },
+        },
+        { title: 'Extract constant', kind: 'refactor.extract', disabled: { reason: 'Not an expression' } },
+        { title: 'Move to file', kind: 'refactor.move', command: { title: 'Move', command: 'move' } },
+      ]);
+    });
+
+    function openMenu() {
+      editor.getDoc().replaceSelection('hello world');
+      editor.getDoc().setSelection({ line: 0, ch: 0 }, { line: 0, ch: 5 });
+
+      const screenPos = editor.charCoords({ line: 0, ch: 3 }, 'window');
+      const target = editor.getWrapperElement().querySelector('.CodeMirror-line');
+      target.dispatchEvent(new MouseEvent('contextmenu', {
+        clientX: screenPos.left,
+        clientY: screenPos.top,
+        bubbles: true,
+      }));
+
+      // The menu opens once the refactorings have arrived
+      return connection.getCodeActions.firstCall.returnValue.then(() => {}).then(() => {});
+    }
+
+    it('asks for the refactorings of the selection and groups them by kind', () => {
+      const contextMenuProvider = sinon.stub();
+      adapter = new CodeMirrorAdapter(connection, { contextMenuProvider }, editor);
+
+      return openMenu().then(() => {
+        const [range, context] = connection.getCodeActions.firstCall.args;
+        expect(range).toEqual({ start: { line: 0, character: 0 }, end: { line: 0, character: 5 } });
+        expect(context.only).toEqual(['refactor']);
+
+        const items = contextMenuProvider.firstCall.args[1];
+        expect(items.map((item: any) => item.label)).toEqual(['Go to Definition', 'Refactor…']);
+        const groups = items[1].children;
+        expect(groups.map((group: any) => group.label)).toEqual(['Extract', 'Inline', 'Other']);
+        expect(groups[0].children.map((item: any) => item.label)).toEqual(['Extract function', 'Extract constant']);
+        expect(groups[0].children[1].action).toBeUndefined();
+        expect(groups[0].children[1].disabledReason).toEqual('Not an expression');
+      });
+    });
+
+    it('shows the menu without refactorings when the server fails to provide them', () => {
+      connection.getCodeActions.rejects(new Error('Request failed'));
+
+      return new Promise<any[]>((resolve) => {
+        const contextMenuProvider = sinon.stub().callsFake((ev: MouseEvent, items: any[]) => resolve(items));
+        adapter = new CodeMirrorAdapter(connection, { contextMenuProvider }, editor);
+        openMenu().catch(() => {});
+      }).then((items) => {
+        expect(items.map((item: any) => item.label)).toEqual(['Go to Definition']);
+      });
+    });
+
+    it('shows disabled refactorings with their reason and runs the chosen one', () => {
+      adapter = new CodeMirrorAdapter(connection, {}, editor);
+
+      return openMenu().then(() => new Promise<void>((resolve) => {
+        const disabled = document.querySelector('.CodeMirror-lsp-submenu .CodeMirror-lsp-disabled');
+        expect(disabled.querySelector('.CodeMirror-lsp-disabled-reason').textContent).toEqual('Not an expression');
+        disabled.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+        expect(document.querySelectorAll('.CodeMirror-lsp-tooltip').length).toEqual(1);
+
+        const headings = document.querySelectorAll('.CodeMirror-lsp-submenu .CodeMirror-lsp-context-group');
+        expect(headings.length).toEqual(3);
+        connection.executeCommand.callsFake(() => resolve());
+        headings[0].nextElementSibling.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+        expect(document.querySelectorAll('.CodeMirror-lsp-tooltip').length).toEqual(0);
+      })).then(() => {
+        expect(connection.executeCommand.calledOnceWith('extract')).toEqual(true);
+      });
+    });
+  });
 });
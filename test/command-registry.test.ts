@@ -0,0 +1,45 @@
+import * as expect from 'expect';
+import * as sinon from 'sinon';
+import { CommandRegistry } from '../src/command-registry';
+
+describe('CommandRegistry', () => {
+  let registry: CommandRegistry;
+
+  beforeEach(() => {
+    registry = new CommandRegistry();
+  });
+
+  it('runs the handler with the arguments of the command', () => {
+    const handler = sinon.stub().returns('result');
+    registry.register('editor.action.showReferences', handler);
+
+    return registry.execute('editor.action.showReferences', ['file:///a.ts', 1]).then((result) => {
+      expect(result).toEqual('result');
+      expect(handler.calledOnceWith('file:///a.ts', 1)).toEqual(true);
+    });
+  });
+
+  it('unregisters the handler', () => {
+    const unregister = registry.register('editor.action.triggerSuggest', () => null);
+    unregister();
+
+    expect(registry.has('editor.action.triggerSuggest')).toEqual(false);
+    return registry.execute('editor.action.triggerSuggest').then(() => {
+      throw new Error('Expected the command to fail');
+    }, (e) => {
+      expect(e.message).toContain('editor.action.triggerSuggest');
+    });
+  });
+
+  it('rejects when the handler throws', () => {
+    registry.register('fails', () => {
+      throw new Error('Failed');
+    });
+
+    return registry.execute('fails').then(() => {
+      throw new Error('Expected the command to fail');
+    }, (e) => {
+      expect(e.message).toEqual('Failed');
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import * as expect from 'expect';
 import * as sinon from 'sinon';
 import * as lsProtocol from 'vscode-languageserver-protocol';
-import { LspWsConnection } from '../src/';
+import { ILspOptions, LspWsConnection, MessageRecorder, pyrightServerProfile } from '../src/';
 
 const serverUri = 'ws://localhost:8080';
 
@@ -46,15 +46,15 @@ class MockSocket implements EventTarget {
   public readonly url: string;
 
   public listeners: IListeners = {};
+  public eventListeners: IListeners = {};
 
   /**
    * Mocks sending data to the server. The fake implementation needs to respond with some data
    */
   public send = sinon.stub();
-  public addEventListener = sinon.mock().callsFake((type: keyof WebSocketEventMap, listener: Listener) => {
-    const listeners: Listener[] = this.listeners[type];
-    if (!listeners) { this.listeners[type] = []; }
-    listeners.push(listener);
+  public addEventListener = sinon.stub().callsFake((type: keyof WebSocketEventMap, listener: Listener) => {
+    if (!this.eventListeners[type]) { this.eventListeners[type] = []; }
+    this.eventListeners[type].push(listener);
   });
   public removeEventListener = sinon.mock().callsFake((type: keyof WebSocketEventMap, listener: Listener) => {
     const index = this.listeners[type].indexOf((l) => l === listener);
@@ -68,8 +68,8 @@ class MockSocket implements EventTarget {
    * Sends a synthetic event to the client code, for example to imitate a server response
    */
   public dispatchEvent = ((event: Event) => {
-    const listeners: Listener[] = this.listeners[event.type];
-    if (!listeners) {
+    const listeners: Listener[] = (this.listeners[event.type] || []).concat(this.eventListeners[event.type] || []);
+    if (!listeners.length) {
       return false;
     }
     listeners.forEach((listener) => listener.call(null, event));
@@ -168,6 +168,168 @@ describe('LspWsConnection', () => {
     expect(JSON.parse(mockSocket.send.firstCall.args[0]).method).toEqual('initialize');
   });
 
+  describe('server profiles', () => {
+    function getMessages() {
+      return mockSocket.send.args.map((args) => JSON.parse(args[0]));
+    }
+
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {},
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('sends a language-neutral handshake by default', (done) => {
+      mockSocket.send.onSecondCall().callsFake(() => {
+        setTimeout(() => {
+          const [initialize, , configuration] = getMessages();
+          expect(initialize.params.initializationOptions).toBeUndefined();
+          expect(configuration.params.settings).toEqual({});
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('sends the options, settings and capabilities of the profile', (done) => {
+      connection = new LspWsConnection({
+        languageId: 'python',
+        rootUri: 'file://' + __dirname,
+        documentUri: 'file://' + __dirname,
+        serverUri,
+        documentText: () => '',
+        profile: Object.assign({}, pyrightServerProfile, {
+          initializationOptions: () => ({ trace: true }),
+          capabilities: {
+            textDocument: {
+              hover: { contentFormat: ['plaintext'] },
+            },
+          },
+        }),
+      });
+
+      mockSocket.send.onSecondCall().callsFake(() => {
+        setTimeout(() => {
+          const [initialize, , configuration] = getMessages();
+          expect(initialize.params.initializationOptions).toEqual({ trace: true });
+          expect(initialize.params.capabilities.textDocument.hover).toEqual({
+            dynamicRegistration: true,
+            contentFormat: ['plaintext'],
+          });
+          expect(configuration.params.settings.python.analysis.useLibraryCodeForTypes).toEqual(true);
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('uses the typescript-language-server profile when tsserver options are set', (done) => {
+      connection = new LspWsConnection({
+        languageId: 'typescript',
+        rootUri: 'file://' + __dirname,
+        documentUri: 'file://' + __dirname,
+        serverUri,
+        documentText: () => '',
+        tsserver: { logVerbosity: 'verbose' },
+      });
+
+      mockSocket.send.onSecondCall().callsFake(() => {
+        setTimeout(() => {
+          const [initialize] = getMessages();
+          expect(initialize.params.initializationOptions.tsserver).toEqual({ logVerbosity: 'verbose' });
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('settings', () => {
+    beforeEach(() => {
+      connection = new LspWsConnection({
+        languageId: 'yaml',
+        rootUri: 'file://' + __dirname,
+        documentUri: 'file://' + __dirname,
+        serverUri,
+        documentText: () => '',
+        profile: {
+          settings: () => ({ yaml: { validate: true } }),
+        },
+      });
+
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {},
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('answers workspace/configuration from the settings', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'workspace/configuration',
+          params: {
+            items: [{ section: 'yaml.validate' }, { section: 'yaml.format' }],
+          } as lsProtocol.ConfigurationParams,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result).toEqual([true, null]);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('sends didChangeConfiguration when the settings are updated', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.updateSettings('yaml.format.enable', true);
+
+          const message = JSON.parse(mockSocket.send.lastCall.args[0]);
+          expect(message.method).toEqual('workspace/didChangeConfiguration');
+          expect(message.params.settings).toEqual({
+            yaml: {
+              validate: true,
+              format: { enable: true },
+            },
+          });
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
   describe('register/unregister capability', () => {
     beforeEach(() => {
       mockSocket.send.onFirstCall().callsFake((str) => {
@@ -267,8 +429,8 @@ describe('LspWsConnection', () => {
         mockSocket.dispatchEvent(new MessageEvent('message', { data }));
       });
 
-      // 2. After receiving capabilities from the server, we will send a hover
-      mockSocket.send.onSecondCall().callsFake((str) => {
+      // 2. Once the document has been opened and synced, we will send a hover
+      mockSocket.send.onCall(4).callsFake((str) => {
         connection.getHoverTooltip({
           line: 1,
           ch: 0,
@@ -279,7 +441,7 @@ describe('LspWsConnection', () => {
 
     it('emits a null hover event', (done) => {
       // 3. Fake a server response for the hover
-      mockSocket.send.onThirdCall().callsFake((str) => {
+      mockSocket.send.onCall(5).callsFake((str) => {
         const message = JSON.parse(str);
 
         const data = JSON.stringify({
@@ -316,7 +478,7 @@ describe('LspWsConnection', () => {
       } as lsProtocol.Hover;
 
       // 3. Fake a server response for the hover
-      mockSocket.send.onThirdCall().callsFake((str) => {
+      mockSocket.send.onCall(5).callsFake((str) => {
         const message = JSON.parse(str);
 
         const data = JSON.stringify({
@@ -338,21 +500,23 @@ describe('LspWsConnection', () => {
     });
   });
 
-  describe('completion', () => {
-    let completionResponse: lsProtocol.CompletionList;
+  describe('promise results', () => {
+    const definition = {
+      uri: 'file:///path/to/file.ts',
+      range: {
+        start: { line: 1, character: 0 },
+        end: { line: 1, character: 4 },
+      },
+    } as lsProtocol.Location;
 
     beforeEach(() => {
-      // Fake response just includes the hover provider
       mockSocket.send.onFirstCall().callsFake((str) => {
         const data = JSON.stringify({
           jsonrpc: '2.0',
           id: 0,
           result: {
             capabilities: {
-              completionProvider: {
-                triggerCharacters: ['.'],
-                resolveProvider: false,
-              },
+              definitionProvider: true,
             },
           } as lsProtocol.InitializeResult,
         });
@@ -360,116 +524,1670 @@ describe('LspWsConnection', () => {
         mockSocket.dispatchEvent(new MessageEvent('message', { data }));
       });
 
-      // 2. After receiving capabilities from the server, we will send a completion
-      mockSocket.send.onSecondCall().callsFake((str) => {
-        connection.getCompletion({
-          line: 1,
-          ch: 8,
-        }, {
-          start: {
-            line: 1,
-            ch: 8,
-          },
-          end: {
-            line: 1,
-            ch: 9,
-          },
-          text: '.',
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: JSON.parse(str).id,
+          result: [definition],
         });
-      });
 
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
     });
 
-    it('emits a null completion event', (done) => {
-      // 3. Fake a server response for the hover
-      mockSocket.send.onThirdCall().callsFake((str) => {
-        const message = JSON.parse(str);
+    it('resolves the request and still emits the event', (done) => {
+      let emitted: any;
+      connection.on('goTo', (result) => {
+        emitted = result;
+      });
 
-        const data = JSON.stringify({
-          jsonrpc: '2.0',
-          id: message.id,
-          result: null,
+      mockSocket.send.onCall(4).callsFake(() => {
+        connection.getDefinition({ line: 0, ch: 0 }).then((result) => {
+          expect(result).toEqual([definition]);
+          expect(emitted).toEqual([definition]);
+          done();
         });
-
-        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
       });
 
       connection.connect(mockSocket);
       mockSocket.dispatchEvent(new Event('open'));
+    });
 
-      connection.on('completion', (response) => {
-        expect(response).toBeNull();
+    it('resolves with null when the server does not support the request', (done) => {
+      connection.getReferences({ line: 0, ch: 0 }).then((result) => {
+        expect(result).toBeNull();
         done();
       });
     });
+  });
 
-    it('emits a completion event using CompletionList', (done) => {
-      completionResponse = {
-        isIncomplete: false,
-        items: [{
-          label: 'log',
-        }, {
-          label: 'info',
-        }],
-      } as lsProtocol.CompletionList;
+  describe('message requests', () => {
+    const params = {
+      type: lsProtocol.MessageType.Info,
+      message: 'Install missing typings?',
+      actions: [{ title: 'Install' }],
+    } as lsProtocol.ShowMessageRequestParams;
 
-      // 3. Fake a server response for the hover
-      mockSocket.send.onThirdCall().callsFake((str) => {
+    function sendMessageRequest() {
+      const data = JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'window/showMessageRequest',
+        params,
+      });
+
+      mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+    }
+
+    it('responds with the action that was chosen', (done) => {
+      connection.on('showMessageRequest', (request, respond) => {
+        expect(request).toEqual(params);
+        respond(request.actions[0]);
+        respond(null);
+      });
+      mockSocket.send.onFirstCall().callsFake(() => {
+        sendMessageRequest();
+      });
+      mockSocket.send.onSecondCall().callsFake((str) => {
         const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result).toEqual({ title: 'Install' });
+        setTimeout(() => {
+          expect(mockSocket.send.callCount).toEqual(2);
+          done();
+        }, 10);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
 
+    it('does not apply a workspace edit when there is no editor', (done) => {
+      mockSocket.send.onFirstCall().callsFake(() => {
         const data = JSON.stringify({
           jsonrpc: '2.0',
-          id: message.id,
-          result: completionResponse,
+          id: 1,
+          method: 'workspace/applyEdit',
+          params: { edit: { changes: {} } },
         });
-
         mockSocket.dispatchEvent(new MessageEvent('message', { data }));
       });
+      mockSocket.send.onSecondCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result.applied).toEqual(false);
+        done();
+      });
 
       connection.connect(mockSocket);
       mockSocket.dispatchEvent(new Event('open'));
+    });
 
-      connection.on('completion', (response) => {
-        expect(response).toEqual(completionResponse.items);
+    it('responds with null when nobody listens', (done) => {
+      mockSocket.send.onFirstCall().callsFake(() => {
+        sendMessageRequest();
+      });
+      mockSocket.send.onSecondCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result).toBeNull();
         done();
       });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
     });
+  });
 
-    it('emits a completion event of CompletionItem[]', (done) => {
-      const completion = [{
-        label: 'log',
-      }, {
-        label: 'info',
-      }] as lsProtocol.CompletionItem[];
+  describe('workspace folders', () => {
+    const packages = { uri: 'file:///project/packages/app', name: 'app' };
+    const library = { uri: 'file:///project/packages/lib', name: 'lib' };
 
-      // 3. Fake a server response for the hover
-      mockSocket.send.onThirdCall().callsFake((str) => {
+    beforeEach(() => {
+      connection = new LspWsConnection({
+        languageId: 'plaintext',
+        rootUri: 'file:///project',
+        workspaceFolders: [packages],
+        documentUri: 'file:///project/packages/app/index.ts',
+        serverUri,
+        documentText: () => '',
+      });
+
+      mockSocket.send.onFirstCall().callsFake((str) => {
         const message = JSON.parse(str);
+        expect(message.params.capabilities.workspace.workspaceFolders).toEqual(true);
+        expect(message.params.workspaceFolders).toEqual([packages]);
 
         const data = JSON.stringify({
           jsonrpc: '2.0',
-          id: message.id,
-          result: completion,
+          id: 0,
+          result: {
+            capabilities: {
+              workspace: {
+                workspaceFolders: {
+                  supported: true,
+                  changeNotifications: true,
+                },
+              },
+            },
+          } as lsProtocol.InitializeResult,
         });
-
         mockSocket.dispatchEvent(new MessageEvent('message', { data }));
       });
+    });
+
+    it('tells the server about added and removed folders', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        connection.addWorkspaceFolder(library);
+        connection.addWorkspaceFolder(library);
+        connection.removeWorkspaceFolder(packages.uri);
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('workspace/didChangeWorkspaceFolders');
+        expect(message.params.event).toEqual({ added: [library], removed: [] });
+      });
+      mockSocket.send.onCall(6).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.event).toEqual({ added: [], removed: [packages] });
+        expect(connection.getWorkspaceFolders()).toEqual([library]);
+        done();
+      });
 
       connection.connect(mockSocket);
       mockSocket.dispatchEvent(new Event('open'));
+    });
 
-      connection.on('completion', (response) => {
-        expect(response).toEqual(completion);
+    it('answers the workspace folders request', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        const data = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'workspace/workspaceFolders' });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result).toEqual([packages]);
         done();
       });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
     });
   });
 
-  it('closes the socket connection and stops sending messages', () => {
-    connection.connect(mockSocket);
-    connection.close();
+  describe('workspace files', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              workspace: {
+                fileOperations: {
+                  willRename: {
+                    filters: [{ scheme: 'file', pattern: { glob: '**/*.ts' } }],
+                  },
+                },
+              },
+            },
+          } as lsProtocol.InitializeResult,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
 
-    connection.sendChange();
-    expect(mockSocket.send.callCount).toEqual(0);
+    it('sends the file changes that match a registered watcher', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'client/registerCapability',
+          params: {
+            registrations: [{
+              id: 'watcher',
+              method: 'workspace/didChangeWatchedFiles',
+              registerOptions: {
+                watchers: [{ globPattern: '**/*.ts', kind: lsProtocol.WatchKind.Create }],
+              },
+            }],
+          } as lsProtocol.RegistrationParams,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      mockSocket.send.onCall(5).callsFake(() => {
+        connection.notifyWatchedFilesChanged([
+          { uri: 'file:///project/a.ts', type: lsProtocol.FileChangeType.Created },
+          { uri: 'file:///project/b.ts', type: lsProtocol.FileChangeType.Deleted },
+          { uri: 'file:///project/c.css', type: lsProtocol.FileChangeType.Created },
+        ]);
+      });
+      mockSocket.send.onCall(6).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('workspace/didChangeWatchedFiles');
+        expect(message.params.changes).toEqual([
+          { uri: 'file:///project/a.ts', type: lsProtocol.FileChangeType.Created },
+        ]);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('only tells the server about file operations it is interested in', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        connection.didRenameFiles([{ oldUri: 'file:///project/a.ts', newUri: 'file:///project/b.ts' }]);
+        connection.willRenameFiles([
+          { oldUri: 'file:///project/a.css', newUri: 'file:///project/b.css' },
+          { oldUri: 'file:///project/a.ts', newUri: 'file:///project/b.ts' },
+        ]);
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('workspace/willRenameFiles');
+        expect(message.params.files).toEqual([
+          { oldUri: 'file:///project/a.ts', newUri: 'file:///project/b.ts' },
+        ]);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('virtual file system', () => {
+    beforeEach(() => {
+      connection = new LspWsConnection({
+        languageId: 'typescript',
+        rootUri: 'file:///project',
+        documentUri: 'file:///project/index.ts',
+        serverUri,
+        documentText: () => 'import { a } from "./a";',
+        virtualFileSystem: {
+          listFiles: (base) => ['file:///project/index.ts', 'file:///project/a.ts']
+            .filter((uri) => !base || uri.indexOf(base) === 0),
+          readFile: (uri) => uri === 'file:///project/a.ts' ? 'export const a = 1;' : null,
+        },
+      });
+
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.capabilities.xfilesProvider).toEqual(true);
+        expect(message.params.capabilities.xcontentProvider).toEqual(true);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {},
+          } as lsProtocol.InitializeResult,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    function request(id: number, method: string, params: any) {
+      const data = JSON.stringify({ jsonrpc: '2.0', id, method, params });
+      mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+    }
+
+    it('lists the files of the project', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        request(1, 'workspace/xfiles', { base: 'file:///project/a' });
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result).toEqual([{ uri: 'file:///project/a.ts' }]);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('reads files from the file system and open documents from their editor', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        request(1, 'textDocument/xcontent', { textDocument: { uri: 'file:///project/a.ts' } });
+        request(2, 'textDocument/xcontent', { textDocument: { uri: 'file:///project/index.ts' } });
+        request(3, 'textDocument/xcontent', { textDocument: { uri: 'file:///project/missing.ts' } });
+      });
+      const responses: any[] = [];
+      mockSocket.send.callsFake((str) => {
+        const message = JSON.parse(str);
+        if (typeof message.id !== 'number' || message.method) {
+          return;
+        }
+        responses[message.id] = message;
+        if (responses.filter(Boolean).length === 3) {
+          expect(responses[1].result.text).toEqual('export const a = 1;');
+          expect(responses[2].result.text).toEqual('import { a } from "./a";');
+          expect(responses[2].result.languageId).toEqual('typescript');
+          expect(responses[3].error).toBeTruthy();
+          done();
+        }
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('commands', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              executeCommandProvider: {
+                commands: ['organizeImports'],
+              },
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('runs the commands the server offers', (done) => {
+      mockSocket.send.onCall(3).callsFake(() => {
+        expect(connection.isCommandSupported('organizeImports')).toEqual(true);
+        connection.executeCommand('organizeImports', ['file:///a.ts']);
+      });
+      mockSocket.send.onCall(4).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('workspace/executeCommand');
+        expect(message.params).toEqual({ command: 'organizeImports', arguments: ['file:///a.ts'] });
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('resolves with null for commands the server does not offer', (done) => {
+      mockSocket.send.onCall(3).callsFake(() => {
+        connection.executeCommand('unknown').then((result) => {
+          expect(result).toBeNull();
+          done();
+        });
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('code actions', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.capabilities.textDocument.codeAction.disabledSupport).toEqual(true);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              codeActionProvider: true,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('leaves out the kinds that were not asked for', (done) => {
+      const range = {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 3 },
+      };
+      mockSocket.send.onCall(3).callsFake(() => {
+        connection.getCodeActions(range, { diagnostics: [], only: ['refactor.extract'] }).then((actions) => {
+          expect(actions.map((action) => action.title)).toEqual(['Extract function', 'Extract constant']);
+          done();
+        });
+      });
+      mockSocket.send.onCall(4).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/codeAction');
+        expect(message.params.context.only).toEqual(['refactor.extract']);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: [
+            { title: 'Extract function', kind: 'refactor.extract.function' },
+            { title: 'Extract constant', kind: 'refactor.extract' },
+            { title: 'Inline variable', kind: 'refactor.inline' },
+            { title: 'Extractor', kind: 'refactor.extractor' },
+            { title: 'Organize imports', command: 'organizeImports' },
+          ],
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('rename', () => {
+    function initialize(renameProvider: boolean | lsProtocol.RenameOptions) {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.capabilities.textDocument.rename.prepareSupport).toEqual(true);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: { renameProvider },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    }
+
+    it('leaves finding the identifier to the editor when the server cannot prepare a rename', (done) => {
+      initialize(true);
+      mockSocket.send.onCall(3).callsFake(() => {
+        connection.prepareRename({ line: 0, ch: 2 }).then((result) => {
+          expect(result).toEqual({ defaultBehavior: true });
+          const methods = mockSocket.send.args.map(([str]: [string]) => JSON.parse(str).method);
+          expect(methods).not.toContain('textDocument/prepareRename');
+          done();
+        });
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('prepares the rename and requests the edit', (done) => {
+      initialize({ prepareProvider: true });
+      mockSocket.send.onCall(3).callsFake(() => {
+        connection.prepareRename({ line: 0, ch: 2 });
+      });
+      mockSocket.send.onCall(4).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/prepareRename');
+        expect(message.params.position).toEqual({ line: 0, character: 2 });
+        connection.rename({ line: 0, ch: 2 }, 'renamed');
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/rename');
+        expect(message.params.newName).toEqual('renamed');
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('formatting', () => {
+    const options = { tabSize: 2, insertSpaces: true };
+
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              documentFormattingProvider: true,
+              documentOnTypeFormattingProvider: {
+                firstTriggerCharacter: '}',
+                moreTriggerCharacter: [';', '\n'],
+              },
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('formats the document and formats on the trigger characters', (done) => {
+      // The messages are told apart by their method, because the document is synced in between
+      mockSocket.send.callsFake((str) => {
+        const message = JSON.parse(str);
+        if (message.method === 'textDocument/didOpen') {
+          expect(connection.getFormatOnTypeCharacters()).toEqual(['}', ';', '\n']);
+          expect(connection.isRangeFormattingSupported()).toEqual(false);
+          connection.formatDocument(options);
+        } else if (message.method === 'textDocument/formatting') {
+          expect(message.params.options).toEqual(options);
+          connection.formatOnType({ line: 1, ch: 0 }, 'a', options).then((edits) => {
+            expect(edits).toBeNull();
+            connection.formatOnType({ line: 1, ch: 0 }, '\n', options);
+          });
+        } else if (message.method === 'textDocument/onTypeFormatting') {
+          expect(message.params.ch).toEqual('\n');
+          expect(message.params.position).toEqual({ line: 1, character: 0 });
+          done();
+        }
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('pull diagnostics', () => {
+    const diagnostic = {
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 3 },
+      },
+      message: 'Unknown name',
+    } as lsProtocol.Diagnostic;
+
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.capabilities.workspace.diagnostics.refreshSupport).toEqual(true);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              textDocumentSync: lsProtocol.TextDocumentSyncKind.Full,
+              diagnosticProvider: {
+                identifier: 'lint',
+                interFileDependencies: false,
+                workspaceDiagnostics: false,
+              },
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    function respond(id: number, report: lsProtocol.DocumentDiagnosticReport) {
+      const data = JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        result: report,
+      });
+      mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+    }
+
+    it('pulls diagnostics after the document changes and reuses them when unchanged', (done) => {
+      const received: lsProtocol.PublishDiagnosticsParams[] = [];
+      connection.on('diagnostic', (params) => {
+        received.push(params);
+        if (received.length === 1) {
+          connection.sendChange();
+        } else {
+          expect(received[1].diagnostics).toEqual([diagnostic]);
+          expect(received[1].uri).toEqual('file://' + __dirname);
+          done();
+        }
+      });
+
+      // 0 initialize, 1 initialized, 2 didChangeConfiguration, 3 didOpen, 4 didChange
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/diagnostic');
+        expect(message.params.identifier).toEqual('lint');
+        expect(message.params.previousResultId).toBeUndefined();
+        respond(message.id, { kind: 'full', resultId: 'first', items: [diagnostic] });
+      });
+      mockSocket.send.onCall(7).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/diagnostic');
+        expect(message.params.previousResultId).toEqual('first');
+        respond(message.id, { kind: 'unchanged', resultId: 'second' });
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('pulls diagnostics again when the server asks for a refresh', (done) => {
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        respond(message.id, { kind: 'full', items: [] });
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 10,
+          method: 'workspace/diagnostic/refresh',
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      mockSocket.send.onCall(6).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/diagnostic');
+      });
+      mockSocket.send.onCall(7).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(10);
+        expect(message.result).toBeNull();
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('folding ranges', () => {
+    const ranges: lsProtocol.FoldingRange[] = [
+      { startLine: 0, endLine: 4, kind: lsProtocol.FoldingRangeKind.Imports, collapsedText: 'imports' },
+    ];
+
+    it('requests folding ranges after the document changes', (done) => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.capabilities.textDocument.foldingRange.lineFoldingOnly).toEqual(false);
+        expect(message.params.capabilities.textDocument.foldingRange.foldingRange.collapsedText).toEqual(true);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              textDocumentSync: lsProtocol.TextDocumentSyncKind.Full,
+              foldingRangeProvider: true,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      // 0 initialize, 1 initialized, 2 didChangeConfiguration, 3 didOpen, 4 didChange
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('textDocument/foldingRange');
+        expect(message.params.textDocument.uri).toEqual('file://' + __dirname);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: ranges,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.on('foldingRanges', (received) => {
+        expect(received).toEqual(ranges);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('does not request folding ranges when nobody listens', (done) => {
+      mockSocket.send.onFirstCall().callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              textDocumentSync: lsProtocol.TextDocumentSyncKind.Full,
+              foldingRangeProvider: true,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      // 0 initialize, 1 initialized, 2 didChangeConfiguration, 3 didOpen, 4 didChange
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          expect(mockSocket.send.callCount).toEqual(5);
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('server logs', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.params.trace).toEqual('off');
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {},
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('emits log messages, traces and telemetry from the server', (done) => {
+      const received: any[] = [];
+      connection.on('serverLog', (params) => received.push(['serverLog', params.message]));
+      connection.on('trace', (params) => received.push(['trace', params.message]));
+      connection.on('telemetry', (data) => {
+        received.push(['telemetry', data]);
+        expect(received).toEqual([
+          ['serverLog', 'Loaded project'],
+          ['trace', 'Received request'],
+          ['telemetry', { event: 'load' }],
+        ]);
+        done();
+      });
+
+      mockSocket.send.onCall(3).callsFake(() => {
+        const messages = [{
+          jsonrpc: '2.0',
+          method: 'window/logMessage',
+          params: { type: lsProtocol.MessageType.Log, message: 'Loaded project' },
+        }, {
+          jsonrpc: '2.0',
+          method: '$/logTrace',
+          params: { message: 'Received request' },
+        }, {
+          jsonrpc: '2.0',
+          method: 'telemetry/event',
+          params: { event: 'load' },
+        }];
+
+        messages.forEach((message) => {
+          mockSocket.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }));
+        });
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('sends $/setTrace once initialized', (done) => {
+      mockSocket.send.onCall(3).callsFake(() => {
+        connection.setTrace('verbose');
+      });
+      mockSocket.send.onCall(4).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.method).toEqual('$/setTrace');
+        expect(message.params).toEqual({ value: 'verbose' });
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('records every message with its direction', (done) => {
+      const recorder = new MessageRecorder();
+      connection = new LspWsConnection({
+        languageId: 'plaintext',
+        rootUri: 'file://' + __dirname,
+        documentUri: 'file://' + __dirname,
+        serverUri,
+        documentText: () => '',
+        recorder,
+      });
+
+      mockSocket.send.onCall(3).callsFake(() => {
+        const messages = recorder.getMessages();
+        expect(messages.map((recorded) => recorded.direction)).toEqual(['sent', 'received', 'sent', 'sent', 'sent']);
+        expect(messages.map((recorded) => (recorded.message as any).method)).toEqual([
+          'initialize',
+          undefined,
+          'initialized',
+          'workspace/didChangeConfiguration',
+          'textDocument/didOpen',
+        ]);
+        expect(typeof messages[0].timestamp).toEqual('number');
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('progress', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              referencesProvider: true,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('emits the work done progress that the server creates', (done) => {
+      const progress: any[] = [];
+      connection.on('progress', (value, token) => {
+        progress.push([value.kind, token]);
+        if (value.kind === 'end') {
+          expect(progress).toEqual([['begin', 'load'], ['report', 'load'], ['end', 'load']]);
+          done();
+        }
+      });
+
+      mockSocket.send.onCall(4).callsFake(() => {
+        const messages = [{
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'window/workDoneProgress/create',
+          params: { token: 'load' },
+        }, {
+          jsonrpc: '2.0',
+          method: '$/progress',
+          params: { token: 'load', value: { kind: 'begin', title: 'Loading' } },
+        }, {
+          jsonrpc: '2.0',
+          method: '$/progress',
+          params: { token: 'load', value: { kind: 'report', percentage: 50 } },
+        }, {
+          jsonrpc: '2.0',
+          method: '$/progress',
+          params: { token: 'load', value: { kind: 'end' } },
+        }];
+
+        messages.forEach((message) => {
+          mockSocket.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }));
+        });
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('streams partial results of references', (done) => {
+      const reference = (line: number) => ({
+        uri: 'file:///path/to/file.ts',
+        range: {
+          start: { line, character: 0 },
+          end: { line, character: 4 },
+        },
+      });
+      const partialResults: lsProtocol.Location[][] = [];
+
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.getReferences({ line: 0, ch: 0 }, (references) => {
+            partialResults.push(references);
+          }).then((references) => {
+            expect(partialResults).toEqual([[reference(1)], [reference(2)]]);
+            expect(references).toEqual([reference(1), reference(2)]);
+            done();
+          });
+        }, 0);
+      });
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const request = JSON.parse(str);
+        const token = request.params.partialResultToken;
+        const messages = [{
+          jsonrpc: '2.0',
+          method: '$/progress',
+          params: { token, value: [reference(1)] },
+        }, {
+          jsonrpc: '2.0',
+          method: '$/progress',
+          params: { token, value: [reference(2)] },
+        }, {
+          jsonrpc: '2.0',
+          id: request.id,
+          result: [] as lsProtocol.Location[],
+        }];
+
+        messages.forEach((message) => {
+          mockSocket.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(message) }));
+        });
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('stale requests', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              hoverProvider: true,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    function respondTo(str: string, result: any) {
+      const data = JSON.stringify({
+        jsonrpc: '2.0',
+        id: JSON.parse(str).id,
+        result,
+      });
+      mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+    }
+
+    it('cancels a hover request that is superseded by another one', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        connection.getHoverTooltip({ line: 0, ch: 1 });
+        connection.getHoverTooltip({ line: 0, ch: 2 });
+      });
+
+      const hovers: any[] = [];
+      connection.on('hover', (response, location) => {
+        hovers.push(location);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+
+      setTimeout(() => {
+        const first = JSON.parse(mockSocket.send.getCall(5).args[0]);
+        const cancel = JSON.parse(mockSocket.send.getCall(6).args[0]);
+        expect(first.method).toEqual('textDocument/hover');
+        expect(cancel.method).toEqual('$/cancelRequest');
+        expect(cancel.params.id).toEqual(first.id);
+
+        respondTo(mockSocket.send.getCall(5).args[0], { contents: 'first' });
+        respondTo(mockSocket.send.getCall(7).args[0], { contents: 'second' });
+      }, 10);
+
+      setTimeout(() => {
+        expect(hovers).toEqual([{ line: 0, ch: 2 }]);
+        done();
+      }, 20);
+    });
+
+    it('drops a response for an older version of the document', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        connection.getHoverTooltip({ line: 0, ch: 1 });
+      });
+
+      const hovers: any[] = [];
+      connection.on('hover', (response) => {
+        hovers.push(response);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+
+      setTimeout(() => {
+        connection.sendChange();
+        respondTo(mockSocket.send.getCall(5).args[0], { contents: 'outdated' });
+      }, 10);
+
+      setTimeout(() => {
+        expect(hovers).toEqual([]);
+        done();
+      }, 20);
+    });
+  });
+
+  describe('completion', () => {
+    let completionResponse: lsProtocol.CompletionList;
+
+    beforeEach(() => {
+      // Fake response just includes the hover provider
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              completionProvider: {
+                triggerCharacters: ['.'],
+                resolveProvider: false,
+              },
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      // 2. Once the document has been opened and synced, we will send a completion
+      mockSocket.send.onCall(4).callsFake((str) => {
+        connection.getCompletion({
+          line: 1,
+          ch: 8,
+        }, {
+          start: {
+            line: 1,
+            ch: 8,
+          },
+          end: {
+            line: 1,
+            ch: 9,
+          },
+          text: '.',
+        });
+      });
+
+    });
+
+    it('emits a null completion event', (done) => {
+      // 3. Fake a server response for the hover
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: null,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+
+      connection.on('completion', (response) => {
+        expect(response).toBeNull();
+        done();
+      });
+    });
+
+    it('emits a completion event using CompletionList', (done) => {
+      completionResponse = {
+        isIncomplete: false,
+        items: [{
+          label: 'log',
+        }, {
+          label: 'info',
+        }],
+      } as lsProtocol.CompletionList;
+
+      // 3. Fake a server response for the hover
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: completionResponse,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+
+      connection.on('completion', (response) => {
+        expect(response).toEqual(completionResponse.items);
+        done();
+      });
+    });
+
+    it('emits a completion event of CompletionItem[]', (done) => {
+      const completion = [{
+        label: 'log',
+      }, {
+        label: 'info',
+      }] as lsProtocol.CompletionItem[];
+
+      // 3. Fake a server response for the hover
+      mockSocket.send.onCall(5).callsFake((str) => {
+        const message = JSON.parse(str);
+
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: completion,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+
+      connection.on('completion', (response) => {
+        expect(response).toEqual(completion);
+        done();
+      });
+    });
+  });
+
+  describe('document synchronization', () => {
+    function respondWithSyncKind(textDocumentSync: lsProtocol.TextDocumentSyncKind) {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              textDocumentSync,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    }
+
+    const edit = {
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      },
+      text: 'a',
+    };
+
+    it('sends queued changes as ranges when the server supports incremental sync', (done) => {
+      respondWithSyncKind(lsProtocol.TextDocumentSyncKind.Incremental);
+
+      mockSocket.send.onSecondCall().callsFake(() => {
+        setTimeout(() => {
+          connection.queueChange(edit);
+          connection.queueChange(edit);
+          expect(connection.hasQueuedChanges()).toEqual(true);
+          connection.sendChange();
+          expect(connection.hasQueuedChanges()).toEqual(false);
+
+          const message = JSON.parse(mockSocket.send.lastCall.args[0]);
+          expect(message.method).toEqual('textDocument/didChange');
+          expect(message.params.textDocument.version).toEqual(2);
+          expect(message.params.contentChanges).toEqual([edit, edit]);
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('sends the full text when the server only supports full sync', (done) => {
+      respondWithSyncKind(lsProtocol.TextDocumentSyncKind.Full);
+
+      mockSocket.send.onSecondCall().callsFake(() => {
+        setTimeout(() => {
+          connection.queueChange(edit);
+          connection.sendChange();
+
+          const message = JSON.parse(mockSocket.send.lastCall.args[0]);
+          expect(message.params.contentChanges).toEqual([{ text: '' }]);
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('saving', () => {
+    const edit = {
+      range: {
+        start: { line: 0, character: 0 },
+        end: { line: 0, character: 0 },
+      },
+      newText: 'a',
+    } as lsProtocol.TextEdit;
+
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              textDocumentSync: {
+                change: lsProtocol.TextDocumentSyncKind.Full,
+                willSave: true,
+                willSaveWaitUntil: true,
+                save: { includeText: true },
+              },
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('sends willSave and resolves with the edits from willSaveWaitUntil', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.notifySave(lsProtocol.TextDocumentSaveReason.AfterDelay).then((edits) => {
+            expect(edits).toEqual([edit]);
+            done();
+          });
+
+          const willSave = JSON.parse(mockSocket.send.getCall(5).args[0]);
+          expect(willSave.method).toEqual('textDocument/willSave');
+          expect(willSave.params.reason).toEqual(lsProtocol.TextDocumentSaveReason.AfterDelay);
+        }, 0);
+      });
+      mockSocket.send.onCall(6).callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: JSON.parse(str).id,
+          result: [edit],
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('includes the text in didSave when the server asks for it', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.notifyDidSave('saved');
+
+          const message = JSON.parse(mockSocket.send.lastCall.args[0]);
+          expect(message.method).toEqual('textDocument/didSave');
+          expect(message.params.text).toEqual('saved');
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+  });
+
+  describe('multiple documents', () => {
+    const otherUri = 'file://' + __dirname + '/other.ts';
+    let other: LspWsConnection;
+
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {
+              textDocumentSync: lsProtocol.TextDocumentSyncKind.Full,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      other = connection.openDocument({
+        documentUri: otherUri,
+        documentText: () => 'other',
+      });
+    });
+
+    it('opens every document over the same socket', (done) => {
+      mockSocket.send.onCall(6).callsFake(() => {
+        const messages = mockSocket.send.args.map((args) => JSON.parse(args[0]));
+        expect(messages[3].method).toEqual('textDocument/didOpen');
+        expect(messages[3].params.textDocument.uri).toEqual('file://' + __dirname);
+        expect(messages[5].method).toEqual('textDocument/didOpen');
+        expect(messages[5].params.textDocument).toEqual({
+          uri: otherUri,
+          languageId: 'plaintext',
+          text: 'other',
+          version: 0,
+        });
+        expect(other.getDocumentUri()).toEqual(otherUri);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('emits diagnostics on the document they belong to', (done) => {
+      const onRootDiagnostic = sinon.stub();
+      connection.on('diagnostic', onRootDiagnostic);
+      other.on('diagnostic', (params) => {
+        expect(params.uri).toEqual(otherUri);
+        expect(onRootDiagnostic.callCount).toEqual(0);
+        done();
+      });
+
+      mockSocket.send.onCall(6).callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'textDocument/publishDiagnostics',
+          params: {
+            uri: otherUri,
+            diagnostics: [],
+          } as lsProtocol.PublishDiagnosticsParams,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('lets every document apply its part of a workspace edit', (done) => {
+      const rootUri = 'file://' + __dirname;
+      const unopenedUri = 'file://' + __dirname + '/unopened.ts';
+      const edit = (newText: string) => [{
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        newText,
+      }];
+      const received: Array<[string, lsProtocol.WorkspaceEdit]> = [];
+      connection.on('applyEdit', (params, respond) => {
+        received.push(['root', params.edit]);
+        respond({ applied: true });
+      });
+      other.on('applyEdit', (params, respond) => {
+        received.push(['other', params.edit]);
+        respond({ applied: true });
+      });
+
+      mockSocket.send.onCall(6).callsFake(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'workspace/applyEdit',
+          params: {
+            edit: {
+              changes: { [rootUri]: edit('a'), [otherUri]: edit('b'), [unopenedUri]: edit('c') },
+            },
+          } as lsProtocol.ApplyWorkspaceEditParams,
+        });
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      mockSocket.send.onCall(7).callsFake((str) => {
+        const message = JSON.parse(str);
+        expect(message.id).toEqual(1);
+        expect(message.result).toEqual({ applied: true });
+        expect(received).toEqual([
+          ['root', { changes: { [unopenedUri]: edit('c') } }],
+          ['root', { changes: { [rootUri]: edit('a') } }],
+          ['other', { changes: { [otherUri]: edit('b') } }],
+        ]);
+        done();
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('closes a document without closing the socket', (done) => {
+      mockSocket.send.onCall(6).callsFake(() => {
+        setTimeout(() => {
+          other.close();
+
+          const message = JSON.parse(mockSocket.send.lastCall.args[0]);
+          expect(message.method).toEqual('textDocument/didClose');
+          expect(message.params.textDocument.uri).toEqual(otherUri);
+          expect(mockSocket.close.callCount).toEqual(0);
+          expect(connection.isConnected).toEqual(true);
+          expect(other.isConnected).toEqual(false);
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('does not open the same document twice', () => {
+      expect(() => connection.openDocument({
+        documentUri: otherUri,
+        documentText: () => '',
+      })).toThrow();
+    });
+  });
+
+  describe('reconnecting', () => {
+    let sockets: MockSocket[];
+    const socketFactory = () => {
+      const socket = new MockSocket(serverUri);
+      socket.send.callsFake((str) => {
+        const message = JSON.parse(str);
+        if (message.method !== 'initialize') {
+          return;
+        }
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: message.id,
+          result: {
+            capabilities: {
+              definitionProvider: true,
+            },
+          } as lsProtocol.InitializeResult,
+        });
+        socket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+      sockets.push(socket);
+      return socket as any as WebSocket;
+    };
+
+    beforeEach(() => {
+      sockets = [];
+      connection = new LspWsConnection({
+        languageId: 'plaintext',
+        rootUri: 'file://' + __dirname,
+        documentUri: 'file://' + __dirname,
+        serverUri,
+        documentText: () => 'current text',
+        reconnect: {
+          initialDelay: 0,
+        },
+      } as ILspOptions);
+    });
+
+    it('opens a new socket and initializes again after the socket closes', (done) => {
+      const states: string[] = [];
+      connection.on('connectionState', (state) => {
+        states.push(state);
+      });
+
+      connection.connect(socketFactory);
+      sockets[0].dispatchEvent(new Event('open'));
+
+      setTimeout(() => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'client/registerCapability',
+          params: {
+            registrations: [{
+              id: 'id',
+              method: 'textDocument/implementation',
+            }],
+          } as lsProtocol.RegistrationParams,
+        });
+        sockets[0].dispatchEvent(new MessageEvent('message', { data }));
+      }, 0);
+
+      setTimeout(() => {
+        sockets[0].dispatchEvent(new CloseEvent('close'));
+        expect(states).toEqual(['connected', 'disconnected', 'reconnecting']);
+      }, 10);
+
+      setTimeout(() => {
+        expect(sockets.length).toEqual(2);
+        sockets[1].dispatchEvent(new Event('open'));
+      }, 20);
+
+      setTimeout(() => {
+        const methods = sockets[1].send.getCalls().map((call) => JSON.parse(call.args[0]).method);
+        expect(methods[0]).toEqual('initialize');
+        expect(methods).toContain('textDocument/didOpen');
+
+        const didOpen = JSON.parse(sockets[1].send.getCalls()[methods.indexOf('textDocument/didOpen')].args[0]);
+        expect(didOpen.params.textDocument.text).toEqual('current text');
+        expect(connection.isImplementationSupported()).toBe(true);
+        done();
+      }, 30);
+    });
+
+    it('does not reconnect after close() is called', (done) => {
+      connection.connect(socketFactory);
+      sockets[0].dispatchEvent(new Event('open'));
+      connection.close();
+      sockets[0].dispatchEvent(new CloseEvent('close'));
+
+      setTimeout(() => {
+        expect(sockets.length).toEqual(1);
+        done();
+      }, 0);
+    });
+
+    it('does not reconnect after dispose() is called', (done) => {
+      connection.connect(socketFactory);
+      sockets[0].dispatchEvent(new Event('open'));
+      sockets[0].dispatchEvent(new CloseEvent('close'));
+      connection.dispose();
+
+      setTimeout(() => {
+        expect(sockets.length).toEqual(1);
+        done();
+      }, 10);
+    });
+
+    it('disposes the closed transport and ignores messages that arrive on it', (done) => {
+      const diagnostics = sinon.stub();
+      connection.on('diagnostic', diagnostics);
+
+      connection.connect(socketFactory);
+      sockets[0].dispatchEvent(new Event('open'));
+
+      setTimeout(() => {
+        sockets[0].dispatchEvent(new CloseEvent('close'));
+        expect(sockets[0].close.callCount).toEqual(1);
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'textDocument/publishDiagnostics',
+          params: {
+            uri: 'file://' + __dirname,
+            diagnostics: [],
+          } as lsProtocol.PublishDiagnosticsParams,
+        });
+        sockets[0].dispatchEvent(new MessageEvent('message', { data }));
+      }, 0);
+
+      setTimeout(() => {
+        expect(diagnostics.callCount).toEqual(0);
+        done();
+      }, 10);
+    });
+  });
+
+  it('closes the socket connection and stops sending messages', () => {
+    connection.connect(mockSocket);
+    connection.close();
+
+    connection.sendChange();
+    expect(mockSocket.send.callCount).toEqual(0);
+  });
+
+  describe('dispose', () => {
+    beforeEach(() => {
+      mockSocket.send.onFirstCall().callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            capabilities: {},
+          } as lsProtocol.InitializeResult,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+    });
+
+    it('closes the document, shuts the server down and exits', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.dispose().then(() => {
+            const methods = mockSocket.send.args.slice(5).map((args) => JSON.parse(args[0]).method);
+            expect(methods).toEqual(['textDocument/didClose', 'shutdown', 'exit']);
+            expect(mockSocket.close.callCount).toEqual(1);
+            done();
+          });
+        }, 0);
+      });
+      mockSocket.send.onCall(6).callsFake((str) => {
+        const data = JSON.stringify({
+          jsonrpc: '2.0',
+          id: JSON.parse(str).id,
+          result: null,
+        });
+
+        mockSocket.dispatchEvent(new MessageEvent('message', { data }));
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('exits when the server does not answer the shutdown request in time', (done) => {
+      connection = new LspWsConnection({
+        languageId: 'plaintext',
+        rootUri: 'file://' + __dirname,
+        documentUri: 'file://' + __dirname,
+        serverUri,
+        documentText: () => '',
+        shutdownTimeout: 10,
+      } as ILspOptions);
+
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.dispose().then(() => {
+            expect(JSON.parse(mockSocket.send.lastCall.args[0]).method).toEqual('exit');
+            expect(mockSocket.close.callCount).toEqual(1);
+            done();
+          });
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('only closes the document with closeDocument', (done) => {
+      mockSocket.send.onCall(4).callsFake(() => {
+        setTimeout(() => {
+          connection.closeDocument();
+          const methods = mockSocket.send.args.slice(5).map((args) => JSON.parse(args[0]).method);
+          expect(methods).toEqual(['textDocument/didClose']);
+          expect(mockSocket.close.callCount).toEqual(0);
+          expect(connection.isConnected).toEqual(true);
+          done();
+        }, 0);
+      });
+
+      connection.connect(mockSocket);
+      mockSocket.dispatchEvent(new Event('open'));
+    });
+
+    it('closes the socket right away when the server was never initialized', (done) => {
+      connection.connect(mockSocket);
+      connection.dispose().then(() => {
+        expect(mockSocket.send.callCount).toEqual(0);
+        expect(mockSocket.close.callCount).toEqual(1);
+        done();
+      });
+    });
   });
 });
@@ -0,0 +1,67 @@
+import * as expect from 'expect';
+import * as sinon from 'sinon';
+import { EventEmitter } from '../src/event-emitter';
+
+describe('EventEmitter', () => {
+  let emitter: EventEmitter;
+
+  beforeEach(() => {
+    emitter = new EventEmitter();
+  });
+
+  it('calls the listeners of an event in order with every argument', () => {
+    const calls: string[] = [];
+    emitter.on('hover', (a, b) => calls.push(`first ${a} ${b}`));
+    emitter.on('hover', (a, b) => calls.push(`second ${a} ${b}`));
+    emitter.on('other', () => calls.push('other'));
+
+    expect(emitter.emit('hover', 1, 2)).toEqual(true);
+    expect(calls).toEqual(['first 1 2', 'second 1 2']);
+    expect(emitter.emit('missing')).toEqual(false);
+  });
+
+  it('calls a listener added with once a single time', () => {
+    const listener = sinon.stub();
+    emitter.once('hover', listener);
+
+    emitter.emit('hover');
+    emitter.emit('hover');
+
+    expect(listener.callCount).toEqual(1);
+    expect(emitter.listenerCount('hover')).toEqual(0);
+  });
+
+  it('removes listeners', () => {
+    const listener = sinon.stub();
+    const other = sinon.stub();
+    emitter.on('hover', listener);
+    emitter.once('hover', other);
+    emitter.on('highlight', listener);
+
+    emitter.off('hover', listener);
+    emitter.removeListener('hover', other);
+    emitter.emit('hover');
+    expect(listener.callCount).toEqual(0);
+    expect(other.callCount).toEqual(0);
+    expect(emitter.listeners('highlight')).toEqual([listener]);
+
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount('highlight')).toEqual(0);
+  });
+
+  it('does not call listeners that were added while emitting', () => {
+    const added = sinon.stub();
+    emitter.on('hover', () => emitter.on('hover', added));
+
+    emitter.emit('hover');
+
+    expect(added.callCount).toEqual(0);
+    expect(emitter.listenerCount('hover')).toEqual(2);
+  });
+
+  it('throws errors that nobody listens to', () => {
+    const error = new Error('Connection lost');
+
+    expect(() => emitter.emit('error', error)).toThrow(error);
+  });
+});
@@ -0,0 +1,31 @@
+import * as expect from 'expect';
+import { matchFileOperationFilter, matchGlob, matchGlobPattern } from '../src/file-patterns';
+
+describe('File patterns', () => {
+  it('matches globs', () => {
+    expect(matchGlob('**/*.ts', '/project/src/index.ts')).toEqual(true);
+    expect(matchGlob('**/*.ts', 'index.ts')).toEqual(true);
+    expect(matchGlob('**/*.ts', '/project/src/index.tsx')).toEqual(false);
+    expect(matchGlob('src/*.{ts,js}', 'src/index.js')).toEqual(true);
+    expect(matchGlob('src/*.{ts,js}', 'src/lib/index.js')).toEqual(false);
+    expect(matchGlob('file?.[0-9]', 'file1.2')).toEqual(true);
+    expect(matchGlob('file.[!0-9]', 'file.2')).toEqual(false);
+    expect(matchGlob('**/package.json', '/project/PACKAGE.json', true)).toEqual(true);
+  });
+
+  it('matches relative patterns only inside of their base', () => {
+    const pattern = { baseUri: 'file:///project/src', pattern: '*.ts' };
+
+    expect(matchGlobPattern(pattern, 'file:///project/src/index.ts')).toEqual(true);
+    expect(matchGlobPattern(pattern, 'file:///project/src/lib/index.ts')).toEqual(false);
+    expect(matchGlobPattern(pattern, 'file:///other/src/index.ts')).toEqual(false);
+    expect(matchGlobPattern('**/*.md', 'file:///project/docs/read%20me.md')).toEqual(true);
+  });
+
+  it('matches the scheme of file operation filters', () => {
+    const filter = { scheme: 'file', pattern: { glob: '**/*.ts' } };
+
+    expect(matchFileOperationFilter(filter, 'file:///project/index.ts')).toEqual(true);
+    expect(matchFileOperationFilter(filter, 'untitled:///project/index.ts')).toEqual(false);
+  });
+});
@@ -2,7 +2,7 @@ import * as sinon from 'sinon';
 import { ILspConnection } from '../src';
 
 interface IListeners {
-  [key: string]: Array<(arg: any) => void>;
+  [key: string]: Array<(...args: any[]) => void>;
 }
 
 // There is a library that can be used to mock WebSockets, but the API surface tested here is small
@@ -22,7 +22,24 @@ export class MockConnection implements ILspConnection {
   });
 
   public sendInitialize = sinon.stub();
+  public queueChange = sinon.stub();
   public sendChange = sinon.stub();
+  public hasQueuedChanges = sinon.stub().returns(false);
+  public notifySave = sinon.stub().resolves(null);
+  public notifyDidSave = sinon.stub();
+  public getDiagnostics = sinon.stub();
+  public getFoldingRanges = sinon.stub().resolves(null);
+  public getWorkspaceFolders = sinon.stub().returns([]);
+  public addWorkspaceFolder = sinon.stub();
+  public removeWorkspaceFolder = sinon.stub();
+  public notifyWatchedFilesChanged = sinon.stub();
+  public willCreateFiles = sinon.stub().resolves(null);
+  public didCreateFiles = sinon.stub();
+  public willRenameFiles = sinon.stub().resolves(null);
+  public didRenameFiles = sinon.stub();
+  public willDeleteFiles = sinon.stub().resolves(null);
+  public didDeleteFiles = sinon.stub();
+  public executeCommand = sinon.stub().resolves(null);
   public getHoverTooltip = sinon.stub();
   public getCompletion = sinon.stub();
   public getDetailedCompletion = sinon.stub();
@@ -32,12 +49,32 @@ export class MockConnection implements ILspConnection {
   public getTypeDefinition = sinon.stub();
   public getImplementation = sinon.stub();
   public getReferences = sinon.stub();
+  public getDocumentSymbols = sinon.stub().resolves(null);
+  public getWorkspaceSymbols = sinon.stub().resolves(null);
+  public getCodeActions = sinon.stub().resolves(null);
+  public resolveCodeAction = sinon.stub().resolves(null);
+  public prepareRename = sinon.stub().resolves(null);
+  public rename = sinon.stub().resolves(null);
+  public formatDocument = sinon.stub().resolves(null);
+  public formatRange = sinon.stub().resolves(null);
+  public formatOnType = sinon.stub().resolves(null);
+  public getFormatOnTypeCharacters = sinon.stub().returns([]);
   public getDocumentUri = sinon.stub();
+  public getDocumentVersion = sinon.stub();
   public isDefinitionSupported = sinon.stub();
   public isTypeDefinitionSupported = sinon.stub();
   public isImplementationSupported = sinon.stub();
   public isReferencesSupported = sinon.stub();
+  public isCodeActionSupported = sinon.stub();
+  public isDocumentFormattingSupported = sinon.stub();
+  public isRangeFormattingSupported = sinon.stub();
+  public isFoldingRangeSupported = sinon.stub();
+  public isRenameSupported = sinon.stub();
+  public isCommandSupported = sinon.stub();
   public close = sinon.stub();
+  public dispose = sinon.stub().resolves();
+  public closeDocument = sinon.stub();
+  public setTrace = sinon.stub();
 
   public completionCharacters: string[];
   public signatureCharacters: string[];
@@ -47,13 +84,13 @@ export class MockConnection implements ILspConnection {
     this.signatureCharacters = ['('];
   }
 
-  public on(type: string, listener: (arg: any) => void) {
+  public on(type: string, listener: (...args: any[]) => void) {
     const listeners = this.listeners[type];
     if (!listeners) { this.listeners[type] = []; }
     this.listeners[type].push(listener);
   }
 
-  public off(type: string, listener: (arg: any) => void) {
+  public off(type: string, listener: (...args: any[]) => void) {
     const listeners = this.listeners[type];
     if (!listeners) { return; }
 
@@ -70,6 +70,42 @@ describe('ServerCapabilities client registration', () => {
       expect(newServerCapabilities[capability]).toBeUndefined();
     });
   });
+
+  it('registers and unregisters save notifications as text document sync options', () => {
+    const registered = registerServerCapability({
+      textDocumentSync: 2,
+    } as ServerCapabilities, {
+      id: 'id',
+      method: 'textDocument/didSave',
+      registerOptions: { includeText: true },
+    } as Registration);
+
+    expect(registered.textDocumentSync).toEqual({
+      openClose: true,
+      change: 2,
+      save: { includeText: true },
+    });
+
+    const unregistered = unregisterServerCapability(registered, {
+      id: 'id',
+      method: 'textDocument/didSave',
+    } as Unregistration);
+
+    expect(unregistered.textDocumentSync).toEqual({
+      openClose: true,
+      change: 2,
+    });
+  });
+
+  it('leaves the server capabilities alone for file watchers', () => {
+    const registered = registerServerCapability({ hoverProvider: true } as ServerCapabilities, {
+      id: 'id',
+      method: 'workspace/didChangeWatchedFiles',
+      registerOptions: { watchers: [{ globPattern: '**/*.ts' }] },
+    } as Registration);
+
+    expect(registered).toEqual({ hoverProvider: true });
+  });
 });
 
 function getMethodFromCapability(capability: string): string {
@@ -0,0 +1,58 @@
+import * as expect from 'expect';
+import { SettingsStore } from '../src/settings-store';
+
+describe('SettingsStore', () => {
+  let store: SettingsStore;
+
+  beforeEach(() => {
+    store = new SettingsStore({
+      python: {
+        analysis: {
+          typeCheckingMode: 'basic',
+          extraPaths: ['lib'],
+        },
+      },
+    });
+  });
+
+  it('gets settings by section', () => {
+    expect(store.get('python.analysis.typeCheckingMode')).toEqual('basic');
+    expect(store.get('python.analysis')).toEqual({
+      typeCheckingMode: 'basic',
+      extraPaths: ['lib'],
+    });
+    expect(store.get('yaml')).toBeUndefined();
+  });
+
+  it('returns every setting without a section', () => {
+    store.set('yaml.validate', true);
+
+    expect(Object.keys(store.get())).toEqual(['python', 'yaml']);
+  });
+
+  it('overrides global settings for resources inside a scope', () => {
+    store.set('python.analysis.typeCheckingMode', 'strict', 'file:///project/src');
+    store.set('python.analysis.extraPaths', ['vendor'], 'file:///project/src/vendored');
+
+    expect(store.get('python.analysis.typeCheckingMode', 'file:///project/src/main.py')).toEqual('strict');
+    expect(store.get('python.analysis.typeCheckingMode', 'file:///project/setup.py')).toEqual('basic');
+    expect(store.get('python.analysis', 'file:///project/src/vendored/a.py')).toEqual({
+      typeCheckingMode: 'strict',
+      extraPaths: ['vendor'],
+    });
+  });
+
+  it('does not apply a scope to resources that only share its prefix', () => {
+    store.set('python.analysis.typeCheckingMode', 'strict', 'file:///project/src');
+
+    expect(store.get('python.analysis.typeCheckingMode', 'file:///project/src')).toEqual('strict');
+    expect(store.get('python.analysis.typeCheckingMode', 'file:///project/src-old/main.py')).toEqual('basic');
+    expect(store.get('python.analysis.typeCheckingMode', 'file:///project/srcmain.py')).toEqual('basic');
+  });
+
+  it('does not hand out its own objects', () => {
+    store.get('python.analysis').extraPaths.push('other');
+
+    expect(store.get('python.analysis.extraPaths')).toEqual(['lib']);
+  });
+});
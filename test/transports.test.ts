@@ -0,0 +1,64 @@
+import * as expect from 'expect';
+import { createMessageConnection, MessageConnection } from 'vscode-jsonrpc';
+import * as lsProtocol from 'vscode-languageserver-protocol';
+import { createInMemoryTransportPair, IMessageTransport, LspWsConnection } from '../src/';
+
+describe('In-memory transport', () => {
+  let connection: LspWsConnection;
+  let client: IMessageTransport;
+  let server: MessageConnection;
+
+  beforeEach(() => {
+    const transports = createInMemoryTransportPair();
+    client = transports[0];
+    server = createMessageConnection(transports[1].reader, transports[1].writer);
+
+    server.onRequest('initialize', () => ({
+      capabilities: {
+        hoverProvider: true,
+      },
+    } as lsProtocol.InitializeResult));
+    server.onRequest('textDocument/hover', () => ({
+      contents: 'a hover',
+    } as lsProtocol.Hover));
+    server.listen();
+
+    connection = new LspWsConnection({
+      languageId: 'plaintext',
+      rootUri: 'file://' + __dirname,
+      documentUri: 'file://' + __dirname,
+      serverUri: '',
+      documentText: () => '',
+    } as any);
+  });
+
+  afterEach(() => {
+    connection.close();
+    server.dispose();
+  });
+
+  it('initializes and answers requests like a web socket does', (done) => {
+    server.onNotification('textDocument/didOpen', (params: lsProtocol.DidOpenTextDocumentParams) => {
+      expect(params.textDocument.languageId).toEqual('plaintext');
+
+      connection.getHoverTooltip({ line: 0, ch: 0 }).then((hover) => {
+        expect(hover).toEqual({ contents: 'a hover' });
+        done();
+      });
+    });
+
+    connection.connect(client);
+  });
+
+  it('emits a disconnected state when the server end closes', (done) => {
+    connection.on('connectionState', (state) => {
+      if (state === 'connected') {
+        client.dispose();
+      } else if (state === 'disconnected') {
+        done();
+      }
+    });
+
+    connection.connect(client);
+  });
+});